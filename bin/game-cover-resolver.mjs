@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx. The tsconfig is passed explicitly so
+// the "@/" imports resolve whatever directory the CLI is run from: as an
+// option for the ESM loader, and through the environment for the CommonJS
+// one the CLI ends up loaded by.
+import { fileURLToPath } from 'node:url'
+import { tsImport } from 'tsx/esm/api'
+
+const tsconfig = fileURLToPath(new URL('../tsconfig.json', import.meta.url))
+process.env.TSX_TSCONFIG_PATH = tsconfig
+
+await tsImport('../src/cli/game-cover-resolver.ts', {
+  parentURL: import.meta.url,
+  tsconfig,
+})
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { describeMissingCredentials, getProvider } from '@/lib/resolver'
+import {
+  fetchMedia,
+  readMediaParams,
+} from '@/lib/resolver/providers/screenscraper'
+import { jsonError, upstreamError } from '@/lib/server/api'
+import { resolveServerCredentials } from '@/lib/server/credentials'
+
+// Serves ScreenScraper media with the developer credentials of the server
+// environment, so they never reach the client
+export async function GET(request: Request) {
+  const params = readMediaParams(new URL(request.url).searchParams)
+  if (!params) {
+    return jsonError(
+      "Request must have 'systemeid', 'jeuid' and 'media' parameters",
+      400,
+    )
+  }
+
+  const provider = getProvider('screenscraper')
+  const credentials = resolveServerCredentials(provider)
+  const missingError = describeMissingCredentials(provider, credentials)
+  if (missingError) {
+    return jsonError(missingError, 400)
+  }
+
+  try {
+    const media = await fetchMedia(params, credentials, request.signal)
+    return new NextResponse(media.body, {
+      headers: {
+        'Content-Type':
+          media.headers.get('Content-Type') || 'application/octet-stream',
+        // Media files of a game don't change once scraped
+        'Cache-Control': 'public, max-age=604800',
+      },
+    })
+  } catch (error) {
+    return upstreamError(error)
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import {
+  describeMissingCredentials,
+  getProvider,
+  hasProvider,
+} from '@/lib/resolver'
+import type {
+  ArtworkRequestBody,
+  ArtworkResponseBody,
+} from '@/lib/resolver/providers/remote'
+import { jsonError, readJson, upstreamError } from '@/lib/server/api'
+import { resolveServerCredentials } from '@/lib/server/credentials'
+import { proxyMediaUrl } from '@/lib/server/media'
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params
+  if (!hasProvider(id)) {
+    return jsonError(`Unknown provider "${id}"`, 404)
+  }
+  const provider = getProvider(id)
+
+  const body = await readJson<ArtworkRequestBody>(request)
+  // Providers build upstream paths from the IDs, sent with the server's
+  // credentials, so only plain integers are accepted
+  const candidate = body?.candidate
+  if (
+    !candidate ||
+    !Number.isInteger(candidate.id) ||
+    !Array.isArray(candidate.platformIds) ||
+    !candidate.platformIds.every(Number.isInteger)
+  ) {
+    return jsonError(
+      "Request must have a 'candidate' with an integer 'id' and 'platformIds'",
+      400,
+    )
+  }
+
+  const credentials = resolveServerCredentials(provider, body.credentials)
+  const missingError = describeMissingCredentials(provider, credentials)
+  if (missingError) {
+    return jsonError(missingError, 400)
+  }
+
+  try {
+    const imageUrl = await provider.resolveArtwork(
+      candidate,
+      credentials,
+      request.signal,
+    )
+    return NextResponse.json<ArtworkResponseBody>({
+      imageUrl: proxyMediaUrl(imageUrl, request.url),
+    })
+  } catch (error) {
+    return upstreamError(error)
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import {
+  describeMissingCredentials,
+  getProvider,
+  hasProvider,
+} from '@/lib/resolver'
+import type {
+  SearchRequestBody,
+  SearchResponseBody,
+} from '@/lib/resolver/providers/remote'
+import { jsonError, readJson, upstreamError } from '@/lib/server/api'
+import { resolveServerCredentials } from '@/lib/server/credentials'
+import { proxyCandidateMedia } from '@/lib/server/media'
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params
+  if (!hasProvider(id)) {
+    return jsonError(`Unknown provider "${id}"`, 404)
+  }
+  const provider = getProvider(id)
+
+  const body = await readJson<SearchRequestBody>(request)
+  if (!body?.query?.title || !body.query.systemName) {
+    return jsonError("Query must have 'title' and 'systemName' properties", 400)
+  }
+
+  const credentials = resolveServerCredentials(provider, body.credentials)
+  const missingError = describeMissingCredentials(provider, credentials)
+  if (missingError) {
+    return jsonError(missingError, 400)
+  }
+
+  try {
+    const candidates = await provider.search(
+      body.query,
+      credentials,
+      request.signal,
+    )
+    return NextResponse.json<SearchResponseBody>({
+      candidates: candidates.map((candidate) =>
+        proxyCandidateMedia(candidate, request.url),
+      ),
+    })
+  } catch (error) {
+    return upstreamError(error)
+  }
+}
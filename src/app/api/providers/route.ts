@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { listProviders } from '@/lib/resolver'
+import type { ProvidersResponseBody } from '@/lib/resolver/providers/remote'
+import { getConfiguredCredentials } from '@/lib/server/credentials'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  return NextResponse.json<ProvidersResponseBody>({
+    providers: listProviders().map((provider) => ({
+      id: provider.id,
+      configured: getConfiguredCredentials(provider),
+    })),
+  })
+}
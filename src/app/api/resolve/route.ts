@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server'
+import {
+  describeMissingCredentials,
+  getProvider,
+  hasProvider,
+  resolveCovers,
+  type ChainEntry,
+} from '@/lib/resolver'
+import type {
+  ResolveRequestBody,
+  ResolveResponseBody,
+} from '@/lib/resolver/providers/remote'
+import { jsonError, readJson } from '@/lib/server/api'
+import { resolveServerCredentials } from '@/lib/server/credentials'
+import { proxyCandidateMedia, proxyMediaUrl } from '@/lib/server/media'
+
+export async function POST(request: Request) {
+  const body = await readJson<ResolveRequestBody>(request)
+  if (!body?.title || !body.systemName) {
+    return jsonError(
+      "Request must have 'title' and 'systemName' properties",
+      400,
+    )
+  }
+
+  if (!Array.isArray(body.providerIds) || body.providerIds.length === 0) {
+    return jsonError(
+      "Request must list at least one provider in 'providerIds'",
+      400,
+    )
+  }
+
+  const chain: ChainEntry[] = []
+  for (const id of body.providerIds) {
+    if (!hasProvider(id)) {
+      return jsonError(`Unknown provider "${id}"`, 404)
+    }
+    const provider = getProvider(id)
+
+    const credentials = resolveServerCredentials(
+      provider,
+      body.credentials?.[id],
+    )
+    const missingError = describeMissingCredentials(provider, credentials)
+    if (missingError) {
+      return jsonError(missingError, 400)
+    }
+
+    chain.push({ provider, credentials })
+  }
+
+  const { title, systemName, year, crc, md5, sha1, romName, size } = body
+  const result = await resolveCovers(
+    [{ title, systemName, year, crc, md5, sha1, romName, size }],
+    { chain, minScore: body.minScore, signal: request.signal },
+  )
+  const [game] = result.games
+  const [resolution] = result.resolutions
+  return NextResponse.json<ResolveResponseBody>({
+    imageUrl: proxyMediaUrl(game.imageUrl || '', request.url),
+    providerId: resolution.providerId,
+    score: resolution.score,
+    resolution,
+    candidates: result.candidates[0].map((scored) => ({
+      ...scored,
+      candidate: proxyCandidateMedia(scored.candidate, request.url),
+    })),
+  })
+}
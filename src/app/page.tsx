@@ -1,9 +1,10 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 import {
   Card,
   CardContent,
@@ -13,499 +14,74 @@ import {
 } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import {
+  AlertTriangle,
   Copy,
   Download,
   Loader2,
   CheckCircle,
-  Eye,
-  EyeOff,
+  FileSpreadsheet,
+  Pause,
+  Play,
   RefreshCw,
-  Info,
+  Square,
+  Trash2,
+  Upload,
 } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
-import { Label } from '@/components/ui/label'
+import { useFieldMappings } from '@/hooks/use-field-mappings'
+import { Switch } from '@/components/ui/switch'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import {
-  Tooltip,
-  TooltipContent,
-  TooltipProvider,
-  TooltipTrigger,
-} from '@/components/ui/tooltip'
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { InstructionsCard } from '@/components/instructions-card'
-
-interface GameItem {
-  title: string
-  systemName: string
-  imageUrl?: string
-}
-
-interface RAWGGame {
-  id: number
-  name: string
-  background_image: string
-  platforms: Array<{
-    platform: {
-      id: number
-      name: string
-    }
-  }>
-}
-
-interface RAWGResponse {
-  results: RAWGGame[]
-}
-
-interface TheGamesDBGame {
-  id: number
-  game_title: string
-  release_date?: string
-  platform: number
-  boxart?: {
-    front?: {
-      filename: string
-      resolution: string
-    }
-    back?: {
-      filename: string
-      resolution: string
-    }
-  }
-}
-
-interface TheGamesDBResponse {
-  code: number
-  status: string
-  data: {
-    count: number
-    games: TheGamesDBGame[]
-  }
-  pages?: {
-    previous: string
-    current: string
-    next: string
-  }
-  remaining_monthly_allowance?: number
-  extra_allowance?: number
-}
-
-interface TheGamesDBImageData {
-  base_url: string
-  data: {
-    [key: string]: {
-      [key: string]: {
-        resolution: string
-        filename: string
-      }[]
-    }
-  }
-}
-
-interface IGDBGame {
-  id: number
-  name: string
-  cover?: {
-    id: number
-    url?: string
-    image_id: string
-  }
-  platforms?: number[]
-}
-
-interface IGDBAuthResponse {
-  access_token: string
-  expires_in: number
-  token_type: string
-}
-
-// Platform mapping for RAWG API
-const PLATFORM_MAPPING: Record<string, number[]> = {
-  // Microsoft
-  'microsoft windows': [4],
-  'microsoft xbox 360': [14],
-  'microsoft xbox': [80],
-
-  // Nintendo
-  'nintendo 3ds': [8],
-  'nintendo 64': [83],
-  'nintendo ds': [9],
-  'nintendo gamecube': [11],
-  'nintendo switch': [7],
-  'nintendo wii u': [10],
-  'nintendo wii': [10],
-
-  // Sega
-  'sega dreamcast': [106],
-  'sega saturn': [107],
-
-  // Sony
-  'sony playstation 2': [15],
-  'sony playstation 3': [16],
-  'sony playstation 4': [18],
-  'sony playstation 5': [187],
-  'sony playstation portable': [17],
-  'sony playstation vita': [19],
-  'sony playstation': [27],
-}
-
-// Platform mapping for TheGamesDB API
-const TGDB_PLATFORM_MAPPING: Record<string, number[]> = {
-  // Microsoft
-  'microsoft windows': [1],
-  'microsoft xbox 360': [15],
-  'microsoft xbox': [14],
-
-  // Nintendo
-  'nintendo 3ds': [4912],
-  'nintendo 64': [3],
-  'nintendo ds': [12],
-  'nintendo gamecube': [2],
-  'nintendo switch': [4971],
-  'nintendo wii u': [38],
-  'nintendo wii': [9],
-
-  // Sega
-  'sega dreamcast': [16],
-  'sega saturn': [17],
-
-  // Sony
-  'sony playstation 2': [8],
-  'sony playstation 3': [4911],
-  'sony playstation 4': [4919],
-  'sony playstation 5': [4980],
-  'sony playstation portable': [13],
-  'sony playstation vita': [39],
-  'sony playstation': [10],
-}
-
-// Platform mapping for IGDB API
-const IGDB_PLATFORM_MAPPING: Record<string, number[]> = {
-  // Microsoft
-  'microsoft windows': [6],
-  'microsoft xbox 360': [12],
-  'microsoft xbox': [11],
-
-  // Nintendo
-  'nintendo 3ds': [37],
-  'nintendo 64': [4],
-  'nintendo ds': [20],
-  'nintendo gamecube': [21],
-  'nintendo switch': [130],
-  'nintendo wii u': [41],
-  'nintendo wii': [5],
-
-  // Sega
-  'sega dreamcast': [23],
-  'sega saturn': [32],
-
-  // Sony
-  'sony playstation 2': [8],
-  'sony playstation 3': [9],
-  'sony playstation 4': [48],
-  'sony playstation 5': [167],
-  'sony playstation portable': [38],
-  'sony playstation vita': [46],
-  'sony playstation': [7],
-}
-
-// API Type
-export type ApiType = 'rawg' | 'thegamesdb' | 'igdb'
-
-async function fetchGameCover(
-  title: string,
-  systemName: string,
-  apiType: ApiType,
-  apiKey?: string,
-  apiSecret?: string,
-): Promise<string> {
-  if (apiType === 'rawg') {
-    return fetchGameCoverFromRAWG(title, systemName, apiKey)
-  } else if (apiType === 'thegamesdb') {
-    return fetchGameCoverFromTheGamesDB(title, systemName, apiKey)
-  } else {
-    return fetchGameCoverFromIGDB(title, systemName, apiKey, apiSecret)
-  }
-}
-
-async function fetchGameCoverFromRAWG(
-  title: string,
-  systemName: string,
-  apiKey?: string,
-): Promise<string> {
-  try {
-    // Get platform IDs for the system
-    const platformIds = PLATFORM_MAPPING[systemName.toLowerCase()] || []
-
-    // Build search URL
-    const baseUrl = 'https://api.rawg.io/api/games'
-    const params = new URLSearchParams({
-      search: title,
-      page_size: '10',
-    })
-
-    if (apiKey) {
-      params.append('key', apiKey)
-    }
-
-    if (platformIds.length > 0) {
-      params.append('platforms', platformIds.join(','))
-    }
-
-    const response = await fetch(`${baseUrl}?${params}`)
-
-    if (!response.ok) {
-      throw new Error(`RAWG API error: ${response.status}`)
-    }
-
-    const data: RAWGResponse = await response.json()
-
-    if (data.results && data.results.length > 0) {
-      // Find the best match
-      let bestMatch = data.results[0]
-
-      // Try to find exact title match first
-      const exactMatch = data.results.find(
-        (game) => game.name.toLowerCase() === title.toLowerCase(),
-      )
-
-      if (exactMatch) {
-        bestMatch = exactMatch
-      } else {
-        // Find match with correct platform if specified
-        if (platformIds.length > 0) {
-          const platformMatch = data.results.find((game) =>
-            game.platforms?.some((p) => platformIds.includes(p.platform.id)),
-          )
-          if (platformMatch) {
-            bestMatch = platformMatch
-          }
-        }
-      }
-
-      return bestMatch.background_image || ''
-    }
-
-    return ''
-  } catch (error) {
-    console.error(`Failed to fetch cover from RAWG for ${title}:`, error)
-    return ''
-  }
-}
-
-async function fetchGameCoverFromTheGamesDB(
-  title: string,
-  systemName: string,
-  apiKey?: string,
-): Promise<string> {
-  if (!apiKey) {
-    console.error('TheGamesDB API requires an API key')
-    return ''
-  }
-
-  try {
-    // Get platform IDs for the system
-    const platformIds = TGDB_PLATFORM_MAPPING[systemName.toLowerCase()] || []
-
-    // Build search URL
-    const baseUrl = 'https://api.thegamesdb.net/v1'
-    const params = new URLSearchParams({
-      apikey: apiKey,
-      name: title,
-      fields: 'platform,release_date,boxart',
-    })
-
-    if (platformIds.length > 0) {
-      params.append('filter[platform]', platformIds.join(','))
-    }
-
-    // Search for the game
-    const response = await fetch(`${baseUrl}/Games/ByGameName?${params}`)
-
-    if (!response.ok) {
-      throw new Error(`TheGamesDB API error: ${response.status}`)
-    }
-
-    const data: TheGamesDBResponse = await response.json()
-
-    if (data.data && data.data.games && data.data.games.length > 0) {
-      // Find the best match
-      let bestMatch = data.data.games[0]
-
-      // Try to find exact title match first
-      const exactMatch = data.data.games.find(
-        (game) => game.game_title.toLowerCase() === title.toLowerCase(),
-      )
-
-      if (exactMatch) {
-        bestMatch = exactMatch
-      } else if (platformIds.length > 0) {
-        // Find match with correct platform if specified
-        const platformMatch = data.data.games.find((game) =>
-          platformIds.includes(game.platform),
-        )
-        if (platformMatch) {
-          bestMatch = platformMatch
-        }
-      }
-
-      // If we have boxart, we need to get the image URL
-      if (bestMatch.boxart?.front) {
-        // Get the images base URL and data
-        const imagesResponse = await fetch(
-          `${baseUrl}/Games/Images?apikey=${apiKey}&games_id=${bestMatch.id}`,
-        )
-
-        if (!imagesResponse.ok) {
-          throw new Error(
-            `TheGamesDB Images API error: ${imagesResponse.status}`,
-          )
-        }
-
-        const imagesData: TheGamesDBImageData = await imagesResponse.json()
-
-        if (imagesData.data && imagesData.data[bestMatch.id.toString()]) {
-          const gameImages = imagesData.data[bestMatch.id.toString()]
-
-          // Look for boxart front images
-          if (gameImages.boxart) {
-            const frontBoxart = gameImages.boxart.find((img) =>
-              img.filename.includes('front'),
-            )
-            if (frontBoxart) {
-              return `${imagesData.base_url}/boxart/front/${frontBoxart.filename}`
-            }
-
-            // If no specific front boxart, use the first boxart
-            if (gameImages.boxart.length > 0) {
-              return `${imagesData.base_url}/boxart/front/${gameImages.boxart[0].filename}`
-            }
-          }
-
-          // If no boxart, try screenshots
-          if (gameImages.screenshots && gameImages.screenshots.length > 0) {
-            return `${imagesData.base_url}/screenshots/${gameImages.screenshots[0].filename}`
-          }
-        }
-      }
-    }
-
-    return ''
-  } catch (error) {
-    console.error(`Failed to fetch cover from TheGamesDB for ${title}:`, error)
-    return ''
-  }
-}
-
-async function getIGDBAccessToken(
-  clientId: string,
-  clientSecret: string,
-): Promise<string> {
-  try {
-    const response = await fetch(`https://id.twitch.tv/oauth2/token`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        client_id: clientId,
-        client_secret: clientSecret,
-        grant_type: 'client_credentials',
-      }),
-    })
-
-    if (!response.ok) {
-      throw new Error(`IGDB Auth error: ${response.status}`)
-    }
-
-    const data: IGDBAuthResponse = await response.json()
-    return data.access_token
-  } catch (error) {
-    console.error('Failed to get IGDB access token:', error)
-    throw error
-  }
-}
-
-async function fetchGameCoverFromIGDB(
-  title: string,
-  systemName: string,
-  clientId?: string,
-  clientSecret?: string,
-): Promise<string> {
-  if (!clientId || !clientSecret) {
-    console.error('IGDB API requires both Client ID and Client Secret')
-    return ''
-  }
-
-  try {
-    // Get access token
-    const accessToken = await getIGDBAccessToken(clientId, clientSecret)
-
-    // Get platform IDs for the system
-    const platformIds = IGDB_PLATFORM_MAPPING[systemName.toLowerCase()] || []
-
-    // Build the query
-    let query = `search "${title}"; fields name,cover.*,platforms; limit 10;`
-
-    // Add platform filter if available
-    if (platformIds.length > 0) {
-      query += ` where platforms = (${platformIds.join(',')});`
-    }
-
-    // Make the API request
-    const response = await fetch('https://api.igdb.com/v4/games', {
-      method: 'POST',
-      headers: {
-        Accept: 'application/json',
-        'Client-ID': clientId,
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: query,
-    })
-
-    if (!response.ok) {
-      throw new Error(`IGDB API error: ${response.status}`)
-    }
-
-    const games: IGDBGame[] = await response.json()
-
-    if (games && games.length > 0) {
-      // Find the best match
-      let bestMatch = games[0]
-
-      // Try to find exact title match first
-      const exactMatch = games.find(
-        (game) => game.name.toLowerCase() === title.toLowerCase(),
-      )
-
-      if (exactMatch) {
-        bestMatch = exactMatch
-      } else if (platformIds.length > 0) {
-        // Find match with correct platform if specified
-        const platformMatch = games.find((game) =>
-          game.platforms?.some((platformId) =>
-            platformIds.includes(platformId),
-          ),
-        )
-        if (platformMatch) {
-          bestMatch = platformMatch
-        }
-      }
-
-      // If we have a cover, return the image URL
-      if (bestMatch.cover?.image_id) {
-        // IGDB image URL format: https://images.igdb.com/igdb/image/upload/t_cover_big/{image_id}.jpg
-        return `https://images.igdb.com/igdb/image/upload/t_cover_big/${bestMatch.cover.image_id}.jpg`
-      }
-    }
-
-    return ''
-  } catch (error) {
-    console.error(`Failed to fetch cover from IGDB for ${title}:`, error)
-    return ''
-  }
-}
+import { CandidateReview } from '@/components/candidate-review'
+import { FieldMappingEditor } from '@/components/field-mapping-editor'
+import { ProviderChainEditor } from '@/components/provider-chain-editor'
+import { ProviderSettings } from '@/components/provider-settings'
+import {
+  DEFAULT_CONCURRENCY,
+  DEFAULT_MIN_SCORE,
+  createIndexedDBCache,
+  createPauseGate,
+  describeMissingCredentials,
+  findPendingGames,
+  findUnknownSystems,
+  getProvider,
+  listProviders,
+  resolveCovers,
+  withRateLimits,
+  type CoverResolution,
+  type GameItem,
+  type PauseGate,
+  type ProviderCredentials,
+  type ProviderId,
+  type ScoredCandidate,
+} from '@/lib/resolver'
+import {
+  createRemoteProvider,
+  fetchProviderStatus,
+} from '@/lib/resolver/providers/remote'
+import { checkImage } from '@/lib/images'
+import { guessColumns, parseTable, type TableColumns } from '@/lib/formats/csv'
+import { playlistSystemName } from '@/lib/formats/retroarch'
+import {
+  buildCsv,
+  buildJsonDocument,
+  formatFromFileName,
+  imageFieldOf,
+  parseDocument,
+  writeDocument,
+  type ExportSource,
+  type InputFormat,
+} from '@/lib/formats/document'
 
 export default function GameCoverResolver() {
-  const [inputJson, setInputJson] = useState(`[
+  const [inputText, setInputText] = useState(`[
     {
         "title": "Luigi's Mansion",
         "systemName": "Nintendo GameCube"
@@ -532,46 +108,126 @@ export default function GameCoverResolver() {
     }
 ]`)
 
+  const [inputFormat, setInputFormat] = useState<InputFormat>('json')
+  // EmulationStation system folder name, e.g. "snes", or the RetroArch
+  // playlist name used for entries without a db_name
+  const [systemName, setSystemName] = useState('')
+  const [exportSource, setExportSource] = useState<ExportSource | null>(null)
+  const [csvColumns, setCsvColumns] = useState<TableColumns>({
+    title: '',
+    system: '',
+  })
   const [outputJson, setOutputJson] = useState<GameItem[]>([])
+  // Candidates per output game, for manual review
+  const [candidates, setCandidates] = useState<ScoredCandidate[][]>([])
+  // Resolution details per output game
+  const [resolutions, setResolutions] = useState<CoverResolution[]>([])
+  // Adds a coverResolution object to every game in the output
+  const [enrichedOutput, setEnrichedOutput] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
+  const [isPaused, setIsPaused] = useState(false)
+  // Controls of the run in progress
+  const runRef = useRef<{
+    controller: AbortController
+    gate: PauseGate
+  } | null>(null)
   const [error, setError] = useState<string>('')
+  const [warning, setWarning] = useState<string>('')
   const [copied, setCopied] = useState(false)
-  const [rawgApiKey, setRawgApiKey] = useState('')
-  const [tgdbApiKey, setTgdbApiKey] = useState('')
-  const [igdbClientId, setIgdbClientId] = useState('')
-  const [igdbClientSecret, setIgdbClientSecret] = useState('')
-  const [showRawgApiKey, setShowRawgApiKey] = useState(false)
-  const [showTgdbApiKey, setShowTgdbApiKey] = useState(false)
-  const [showIgdbClientId, setShowIgdbClientId] = useState(false)
-  const [showIgdbClientSecret, setShowIgdbClientSecret] = useState(false)
+  const [credentials, setCredentials] = useState<
+    Record<ProviderId, ProviderCredentials>
+  >({})
+  // Credential keys per provider that the server provides from its environment
+  const [serverCredentials, setServerCredentials] = useState<
+    Record<ProviderId, string[]>
+  >({})
   const [processedCount, setProcessedCount] = useState(0)
   const [totalCount, setTotalCount] = useState(0)
-  const [activeApi, setActiveApi] = useState<ApiType>('rawg')
+  const [activeApi, setActiveApi] = useState<ProviderId>('rawg')
+  // Providers tried for each game, in order
+  const [chain, setChain] = useState<ProviderId[]>(['rawg'])
+  const [minScore, setMinScore] = useState(DEFAULT_MIN_SCORE)
+  // Games looked up at the same time
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY)
+  // Skip cached lookups and query the providers again
+  const [bypassCache, setBypassCache] = useState(false)
+  // Only look up games without a working cover, keeping the others
+  const [incremental, setIncremental] = useState(false)
+  // Opens IndexedDB on first use
+  const [cache] = useState(() => createIndexedDBCache())
+  const fieldMappings = useFieldMappings()
   const { toast } = useToast()
 
+  const providers = listProviders()
+  const activeProvider = getProvider(activeApi)
+  const chainProviders = chain.map((id) => getProvider(id))
+  const chainLabel = chainProviders.map((provider) => provider.name).join(' → ')
+  const outputDocument = buildJsonDocument(
+    exportSource,
+    outputJson,
+    resolutions,
+    enrichedOutput,
+  )
+  const imageField = imageFieldOf(exportSource)
+
+  // Header row of the CSV input, for the column pickers
+  const csvHeaders = useMemo(() => {
+    if (inputFormat !== 'csv') {
+      return []
+    }
+    try {
+      return parseTable(inputText).headers.filter(Boolean)
+    } catch {
+      return []
+    }
+  }, [inputFormat, inputText])
+
+  useEffect(() => {
+    // Keep valid choices, guess the others from the header names
+    setCsvColumns((prev) => {
+      const guess = guessColumns(csvHeaders)
+      return {
+        title: csvHeaders.includes(prev.title) ? prev.title : guess.title,
+        system: csvHeaders.includes(prev.system) ? prev.system : guess.system,
+      }
+    })
+  }, [csvHeaders])
+
+  useEffect(() => {
+    fetchProviderStatus()
+      .then((statuses) =>
+        setServerCredentials(
+          Object.fromEntries(
+            statuses.map((status) => [status.id, status.configured]),
+          ),
+        ),
+      )
+      .catch((error) =>
+        console.error('Failed to load provider configuration:', error),
+      )
+  }, [])
+
   const processGames = async () => {
     setError('')
+    setWarning('')
     setIsProcessing(true)
     setProcessedCount(0)
 
     // Check API key requirements
-    if (activeApi === 'thegamesdb' && !tgdbApiKey) {
-      setError('TheGamesDB API requires an API key')
-      toast({
-        title: 'API Key Required',
-        description: 'TheGamesDB API requires an API key to function.',
-        variant: 'destructive',
-      })
-      setIsProcessing(false)
-      return
-    }
-
-    if (activeApi === 'igdb' && (!igdbClientId || !igdbClientSecret)) {
-      setError('IGDB API requires both Client ID and Client Secret')
+    const missingError = chainProviders
+      .map((provider) =>
+        describeMissingCredentials(
+          provider,
+          credentials[provider.id] || {},
+          serverCredentials[provider.id],
+        ),
+      )
+      .find(Boolean)
+    if (missingError) {
+      setError(missingError)
       toast({
         title: 'API Credentials Required',
-        description:
-          'IGDB API requires both Client ID and Client Secret to function.',
+        description: `${missingError} to function.`,
         variant: 'destructive',
       })
       setIsProcessing(false)
@@ -579,79 +235,80 @@ export default function GameCoverResolver() {
     }
 
     try {
-      // Parse input JSON
-      const games: GameItem[] = JSON.parse(inputJson)
-
-      if (!Array.isArray(games)) {
-        throw new Error('Input must be an array of games')
-      }
+      // Parse input
+      const { games, previous, source } = parseDocument(
+        inputFormat,
+        inputText,
+        {
+          systemName,
+          mapping: fieldMappings.mapping,
+          columns: csvColumns,
+        },
+      )
+      setExportSource(source)
 
-      // Validate structure
-      for (const game of games) {
-        if (!game.title || !game.systemName) {
-          throw new Error(
-            "Each game must have 'title' and 'systemName' properties",
-          )
-        }
+      const unknownSystems = findUnknownSystems(
+        games.map((game) => game.systemName),
+      )
+      if (unknownSystems.length > 0) {
+        setWarning(
+          `No platform matches ${unknownSystems.map((name) => `"${name}"`).join(', ')}. These games are searched without a platform filter.`,
+        )
       }
 
-      setTotalCount(games.length)
-
-      // Process games with rate limiting
-      const gamesWithCovers: GameItem[] = []
-
-      for (let i = 0; i < games.length; i++) {
-        const game = games[i]
-
-        try {
-          let imageUrl = ''
-
-          if (activeApi === 'rawg') {
-            imageUrl = await fetchGameCoverFromRAWG(
-              game.title,
-              game.systemName,
-              rawgApiKey || undefined,
-            )
-          } else if (activeApi === 'thegamesdb') {
-            imageUrl = await fetchGameCoverFromTheGamesDB(
-              game.title,
-              game.systemName,
-              tgdbApiKey,
-            )
-          } else if (activeApi === 'igdb') {
-            imageUrl = await fetchGameCoverFromIGDB(
-              game.title,
-              game.systemName,
-              igdbClientId,
-              igdbClientSecret,
-            )
-          }
-
-          gamesWithCovers.push({
-            ...game,
-            imageUrl: imageUrl || undefined,
-          })
-
-          setProcessedCount(i + 1)
-
-          // Rate limiting: wait between requests
-          // Different APIs have different rate limits
-          if (i < games.length - 1) {
-            const delay = activeApi === 'igdb' ? 250 : 1000 // IGDB allows more requests per second
-            await new Promise((resolve) => setTimeout(resolve, delay))
-          }
-        } catch (error) {
-          console.error(`Failed to fetch cover for ${game.title}:`, error)
-          gamesWithCovers.push({ ...game })
-        }
-      }
+      // Requests go through our API routes so credentials stay server-side,
+      // and through one rate limiter per provider shared by all games
+      const entries = withRateLimits(
+        chainProviders.map((provider) => ({
+          provider: createRemoteProvider(provider),
+          credentials: credentials[provider.id] || {},
+        })),
+      )
 
-      setOutputJson(gamesWithCovers)
+      const controller = new AbortController()
+      const gate = createPauseGate()
+      runRef.current = { controller, gate }
+
+      // Indexes of the games to look up
+      const pending = incremental
+        ? await findPendingGames(
+            games,
+            previous.map((resolution) => resolution?.status),
+            checkImage,
+            controller.signal,
+          )
+        : games.map((_, i) => i)
+      setTotalCount(pending.length)
+
+      const result = await resolveCovers(games, {
+        chain: entries,
+        concurrency,
+        gate,
+        pending,
+        previous,
+        minScore,
+        signal: controller.signal,
+        cache,
+        bypassCache,
+        onProgress: ({ completed }) => setProcessedCount(completed),
+      })
 
-      const successCount = gamesWithCovers.filter((g) => g.imageUrl).length
+      setOutputJson(result.games)
+      setCandidates(result.candidates)
+      setResolutions(result.resolutions)
+
+      const successCount = result.games.filter((g) => g.imageUrl).length
+      const errorCount = result.resolutions.filter(
+        (resolution) => resolution.status === 'error',
+      ).length
+      const cachedCount = result.resolutions.filter(
+        (resolution) => resolution.cached,
+      ).length
       toast({
-        title: 'Processing Complete!',
-        description: `Found covers for ${successCount} out of ${gamesWithCovers.length} games.`,
+        title: result.cancelled
+          ? 'Processing Cancelled'
+          : 'Processing Complete!',
+        description: `Found covers for ${successCount} out of ${result.games.length} games.${cachedCount > 0 ? ` ${cachedCount} came from the cache.` : ''}${errorCount > 0 ? ` ${errorCount} failed even after retrying.` : ''}${incremental ? ` ${games.length - pending.length} already had a cover.` : ''}${result.cancelled ? ` ${pending.length - result.completed} games were skipped.` : ''}`,
       })
     } catch (err) {
       const errorMessage =
@@ -663,15 +320,111 @@ export default function GameCoverResolver() {
         variant: 'destructive',
       })
     } finally {
+      runRef.current = null
       setIsProcessing(false)
+      setIsPaused(false)
       setProcessedCount(0)
       setTotalCount(0)
     }
   }
 
+  const clearCache = async () => {
+    try {
+      await cache.clear()
+      toast({
+        title: 'Cache Cleared',
+        description: 'Every game will be looked up again on the next run.',
+      })
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: 'Failed to clear the cache.',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const togglePause = () => {
+    const gate = runRef.current?.gate
+    if (!gate) {
+      return
+    }
+    if (gate.paused) {
+      gate.resume()
+    } else {
+      gate.pause()
+    }
+    setIsPaused(gate.paused)
+  }
+
+  // Abort in-flight requests; the games resolved so far are kept
+  const cancelProcessing = () => {
+    runRef.current?.gate.resume()
+    runRef.current?.controller.abort()
+  }
+
+  const setGameImage = (
+    index: number,
+    imageUrl: string | undefined,
+    resolution: CoverResolution,
+  ) => {
+    setOutputJson((prev) =>
+      prev.map((game, i) => (i === index ? { ...game, imageUrl } : game)),
+    )
+    setResolutions((prev) =>
+      prev.map((item, i) => (i === index ? resolution : item)),
+    )
+  }
+
+  const selectCandidate = async (index: number, scored: ScoredCandidate) => {
+    const { candidate } = scored
+    try {
+      let imageUrl = candidate.imageUrl
+      if (!imageUrl) {
+        const provider = getProvider(candidate.providerId)
+        imageUrl = await createRemoteProvider(provider).resolveArtwork(
+          candidate,
+          credentials[provider.id] || {},
+        )
+        // Remember the artwork so the candidate shows as selected
+        setCandidates((prev) =>
+          prev.map((list, i) =>
+            i === index
+              ? list.map((item) =>
+                  item === scored
+                    ? { ...item, candidate: { ...candidate, imageUrl } }
+                    : item,
+                )
+              : list,
+          ),
+        )
+      }
+
+      if (!imageUrl) {
+        throw new Error(`No artwork found for ${candidate.title}`)
+      }
+      setGameImage(index, imageUrl, {
+        status: 'found',
+        providerId: candidate.providerId,
+        providerGameId: candidate.id,
+        matchedTitle: candidate.title,
+        score: scored.score,
+      })
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description:
+          err instanceof Error ? err.message : 'Failed to load artwork.',
+        variant: 'destructive',
+      })
+    }
+  }
+
   const copyToClipboard = async () => {
     try {
-      await navigator.clipboard.writeText(JSON.stringify(outputJson, null, 2))
+      await navigator.clipboard.writeText(
+        JSON.stringify(outputDocument, null, 2),
+      )
       setCopied(true)
       toast({
         title: 'Copied!',
@@ -687,20 +440,73 @@ export default function GameCoverResolver() {
     }
   }
 
-  const downloadJson = () => {
-    const blob = new Blob([JSON.stringify(outputJson, null, 2)], {
-      type: 'application/json',
-    })
+  const downloadFile = (content: string, filename: string, type: string) => {
+    const blob = new Blob([content], { type })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = 'games-with-covers.json'
+    a.download = filename
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
     URL.revokeObjectURL(url)
   }
 
+  const downloadJson = () => {
+    downloadFile(
+      JSON.stringify(outputDocument, null, 2),
+      'games-with-covers.json',
+      'application/json',
+    )
+  }
+
+  const downloadCsv = () => {
+    const { content, delimiter } = buildCsv(
+      exportSource,
+      outputJson,
+      resolutions,
+    )
+    const tsv = delimiter === '\t'
+    downloadFile(
+      content,
+      tsv ? 'games-with-covers.tsv' : 'games-with-covers.csv',
+      tsv ? 'text/tab-separated-values' : 'text/csv',
+    )
+  }
+
+  const downloadSource = () => {
+    if (exportSource?.format === 'gamelist') {
+      downloadFile(
+        writeDocument(exportSource, outputJson, resolutions),
+        'gamelist.xml',
+        'application/xml',
+      )
+    } else if (exportSource?.format === 'playlist') {
+      downloadFile(
+        writeDocument(exportSource, outputJson, resolutions),
+        exportSource.fileName,
+        'application/json',
+      )
+    }
+  }
+
+  const uploadFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) {
+      return
+    }
+    setInputText(await file.text())
+    const format = formatFromFileName(file.name)
+    if (format) {
+      setInputFormat(format)
+    }
+    if (format === 'playlist') {
+      // Playlists are named after their system, e.g. "Nintendo - GameCube.lpl"
+      setSystemName(playlistSystemName(file.name))
+    }
+  }
+
   const progressPercentage =
     totalCount > 0 ? (processedCount / totalCount) * 100 : 0
 
@@ -719,229 +525,76 @@ export default function GameCoverResolver() {
         <CardHeader>
           <CardTitle>Select API Source</CardTitle>
           <CardDescription>
-            Choose which game database API to use for fetching cover images
+            Choose which game database APIs to use for fetching cover images,
+            and in which order they are tried
           </CardDescription>
         </CardHeader>
         <CardContent>
           <Tabs
-            defaultValue="rawg"
-            onValueChange={(value) => setActiveApi(value as ApiType)}
+            defaultValue={activeApi}
+            onValueChange={(value) => setActiveApi(value)}
           >
-            <TabsList className="grid w-full grid-cols-3">
-              <TabsTrigger value="rawg">RAWG</TabsTrigger>
-              <TabsTrigger value="thegamesdb">TheGamesDB</TabsTrigger>
-              <TabsTrigger value="igdb">IGDB</TabsTrigger>
+            <TabsList
+              className="grid w-full"
+              style={{
+                gridTemplateColumns: `repeat(${providers.length}, minmax(0, 1fr))`,
+              }}
+            >
+              {providers.map((provider) => (
+                <TabsTrigger key={provider.id} value={provider.id}>
+                  {provider.name}
+                </TabsTrigger>
+              ))}
             </TabsList>
 
-            {/* RAWG Tab */}
-            <TabsContent value="rawg" className="mt-4">
-              <div className="space-y-4">
-                <div>
-                  <p className="text-sm">
-                    RAWG is the largest video game database with 500,000+ games.
-                    Works without an API key (limited to 1 request per second)
-                    or with a free API key (20,000 requests per month).
-                  </p>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="rawg-api-key">RAWG API Key (Optional)</Label>
-                  <div className="flex gap-2">
-                    <div className="relative flex-1">
-                      <Input
-                        id="rawg-api-key"
-                        type={showRawgApiKey ? 'text' : 'password'}
-                        value={rawgApiKey}
-                        onChange={(e) => setRawgApiKey(e.target.value)}
-                        placeholder="Enter your RAWG API key..."
-                      />
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="sm"
-                        className="absolute right-0 top-0 h-full px-3"
-                        onClick={() => setShowRawgApiKey(!showRawgApiKey)}
-                      >
-                        {showRawgApiKey ? (
-                          <EyeOff className="h-4 w-4" />
-                        ) : (
-                          <Eye className="h-4 w-4" />
-                        )}
-                      </Button>
-                    </div>
-                  </div>
-                  <p className="text-xs text-muted-foreground">
-                    Get a free API key at{' '}
-                    <a
-                      href="https://rawg.io/apidocs"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary hover:underline"
-                    >
-                      rawg.io/apidocs
-                    </a>
-                  </p>
-                </div>
-              </div>
-            </TabsContent>
-
-            {/* TheGamesDB Tab */}
-            <TabsContent value="thegamesdb" className="mt-4">
-              <div className="space-y-4">
-                <div>
-                  <p className="text-sm">
-                    TheGamesDB is a community-driven game database with
-                    excellent retro game coverage. API key required.
-                  </p>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="tgdb-api-key">
-                    TheGamesDB API Key (Required)
-                  </Label>
-                  <div className="flex gap-2">
-                    <div className="relative flex-1">
-                      <Input
-                        id="tgdb-api-key"
-                        type={showTgdbApiKey ? 'text' : 'password'}
-                        value={tgdbApiKey}
-                        onChange={(e) => setTgdbApiKey(e.target.value)}
-                        placeholder="Enter your TheGamesDB API key..."
-                      />
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="sm"
-                        className="absolute right-0 top-0 h-full px-3"
-                        onClick={() => setShowTgdbApiKey(!showTgdbApiKey)}
-                      >
-                        {showTgdbApiKey ? (
-                          <EyeOff className="h-4 w-4" />
-                        ) : (
-                          <Eye className="h-4 w-4" />
-                        )}
-                      </Button>
-                    </div>
-                  </div>
-                  <p className="text-xs text-muted-foreground">
-                    Get a free API key at{' '}
-                    <a
-                      href="https://thegamesdb.net/api-key.php"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary hover:underline"
-                    >
-                      thegamesdb.net/api-key.php
-                    </a>
-                  </p>
-                </div>
-              </div>
-            </TabsContent>
-
-            {/* IGDB Tab */}
-            <TabsContent value="igdb" className="mt-4">
-              <div className="space-y-4">
-                <div>
-                  <p className="text-sm">
-                    IGDB (Internet Game Database) offers high-quality cover
-                    images and comprehensive game data. Requires Twitch
-                    Developer credentials.
-                  </p>
-                </div>
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <div className="flex items-center">
-                      <Label htmlFor="igdb-client-id">
-                        Client ID (Required)
-                      </Label>
-                      <TooltipProvider>
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              className="h-4 w-4 p-0 ml-1"
-                            >
-                              <Info className="h-3 w-3" />
-                            </Button>
-                          </TooltipTrigger>
-                          <TooltipContent>
-                            <p className="w-80 text-xs">
-                              Get your Client ID from the Twitch Developer
-                              Console. You'll need to register an application.
-                            </p>
-                          </TooltipContent>
-                        </Tooltip>
-                      </TooltipProvider>
-                    </div>
-                    <div className="relative">
-                      <Input
-                        id="igdb-client-id"
-                        type={showIgdbClientId ? 'text' : 'password'}
-                        value={igdbClientId}
-                        onChange={(e) => setIgdbClientId(e.target.value)}
-                        placeholder="Enter your IGDB Client ID..."
-                      />
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="sm"
-                        className="absolute right-0 top-0 h-full px-3"
-                        onClick={() => setShowIgdbClientId(!showIgdbClientId)}
-                      >
-                        {showIgdbClientId ? (
-                          <EyeOff className="h-4 w-4" />
-                        ) : (
-                          <Eye className="h-4 w-4" />
-                        )}
-                      </Button>
-                    </div>
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="igdb-client-secret">
-                      Client Secret (Required)
-                    </Label>
-                    <div className="relative">
-                      <Input
-                        id="igdb-client-secret"
-                        type={showIgdbClientSecret ? 'text' : 'password'}
-                        value={igdbClientSecret}
-                        onChange={(e) => setIgdbClientSecret(e.target.value)}
-                        placeholder="Enter your IGDB Client Secret..."
-                      />
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="sm"
-                        className="absolute right-0 top-0 h-full px-3"
-                        onClick={() =>
-                          setShowIgdbClientSecret(!showIgdbClientSecret)
-                        }
-                      >
-                        {showIgdbClientSecret ? (
-                          <EyeOff className="h-4 w-4" />
-                        ) : (
-                          <Eye className="h-4 w-4" />
-                        )}
-                      </Button>
-                    </div>
-                  </div>
-
-                  <p className="text-xs text-muted-foreground">
-                    Get your credentials at{' '}
-                    <a
-                      href="https://dev.twitch.tv/console/apps"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary hover:underline"
-                    >
-                      dev.twitch.tv/console/apps
-                    </a>
-                    . Register an application and enable the IGDB API.
-                  </p>
-                </div>
-              </div>
-            </TabsContent>
+            {providers.map((provider) => (
+              <TabsContent
+                key={provider.id}
+                value={provider.id}
+                className="mt-4"
+              >
+                <ProviderSettings
+                  provider={provider}
+                  credentials={credentials[provider.id] || {}}
+                  serverCredentials={serverCredentials[provider.id] || []}
+                  onCredentialsChange={(value) =>
+                    setCredentials((prev) => ({
+                      ...prev,
+                      [provider.id]: value,
+                    }))
+                  }
+                />
+              </TabsContent>
+            ))}
           </Tabs>
+
+          <div className="mt-6 pt-6 border-t">
+            <ProviderChainEditor
+              chain={chain}
+              onChainChange={setChain}
+              minScore={minScore}
+              onMinScoreChange={setMinScore}
+              concurrency={concurrency}
+              onConcurrencyChange={setConcurrency}
+            />
+          </div>
+
+          <div className="mt-6 pt-6 border-t flex items-center justify-between gap-4">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="bypass-cache"
+                checked={bypassCache}
+                onCheckedChange={setBypassCache}
+              />
+              <Label htmlFor="bypass-cache" className="text-sm">
+                Bypass cache and look up every game again
+              </Label>
+            </div>
+            <Button variant="outline" size="sm" onClick={clearCache}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Clear Cache
+            </Button>
+          </div>
         </CardContent>
       </Card>
 
@@ -949,17 +602,126 @@ export default function GameCoverResolver() {
         {/* Input Section */}
         <Card>
           <CardHeader>
-            <CardTitle>Input JSON</CardTitle>
+            <CardTitle>Input</CardTitle>
             <CardDescription>
-              Paste your game collection JSON here. Each game should have
-              'title' and 'systemName' properties.
+              {inputFormat === 'csv'
+                ? 'Paste or upload a CSV or TSV file with a header row, then choose the title and system columns.'
+                : inputFormat === 'gamelist'
+                  ? "Paste or upload an EmulationStation gamelist.xml. Each <game>'s <name> is looked up on the system below."
+                  : inputFormat === 'playlist'
+                    ? "Paste or upload a RetroArch .lpl playlist. Each item's label is looked up on the system of its db_name."
+                    : `Paste your game collection JSON here. Each game should have '${fieldMappings.mapping.title}' and '${fieldMappings.mapping.system}' properties.`}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Tabs
+                value={inputFormat}
+                onValueChange={(value) => setInputFormat(value as InputFormat)}
+                className="flex-1"
+              >
+                <TabsList className="grid w-full grid-cols-4">
+                  <TabsTrigger value="json">JSON</TabsTrigger>
+                  <TabsTrigger value="csv">CSV</TabsTrigger>
+                  <TabsTrigger value="gamelist">gamelist.xml</TabsTrigger>
+                  <TabsTrigger value="playlist">RetroArch</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <Button variant="outline" asChild>
+                <label className="cursor-pointer">
+                  <Upload className="mr-2 h-4 w-4" />
+                  Upload
+                  <input
+                    type="file"
+                    accept=".json,.csv,.tsv,.xml,.lpl,application/json,text/csv,text/tab-separated-values,text/xml"
+                    className="hidden"
+                    onChange={uploadFile}
+                  />
+                </label>
+              </Button>
+            </div>
+
+            {inputFormat === 'json' && (
+              <FieldMappingEditor
+                profiles={fieldMappings.profiles}
+                activeProfile={fieldMappings.activeProfile}
+                mapping={fieldMappings.mapping}
+                onProfileChange={fieldMappings.selectProfile}
+                onMappingChange={fieldMappings.updateMapping}
+                onSaveProfile={fieldMappings.saveProfile}
+                onDeleteProfile={fieldMappings.deleteProfile}
+              />
+            )}
+
+            {inputFormat === 'csv' && (
+              <div className="grid grid-cols-2 gap-4">
+                {(
+                  [
+                    ['title', 'Title column'],
+                    ['system', 'System column'],
+                  ] as const
+                ).map(([key, label]) => (
+                  <div key={key} className="space-y-2">
+                    <Label htmlFor={`csv-${key}`}>{label}</Label>
+                    <Select
+                      value={csvColumns[key]}
+                      onValueChange={(value) =>
+                        setCsvColumns((prev) => ({ ...prev, [key]: value }))
+                      }
+                      disabled={csvHeaders.length === 0}
+                    >
+                      <SelectTrigger id={`csv-${key}`}>
+                        <SelectValue placeholder="Choose a column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {csvHeaders.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {inputFormat === 'gamelist' && (
+              <div className="space-y-2">
+                <Label htmlFor="input-system">System</Label>
+                <Input
+                  id="input-system"
+                  value={systemName}
+                  onChange={(e) => setSystemName(e.target.value)}
+                  placeholder="System folder name, e.g. snes or megadrive"
+                />
+              </div>
+            )}
+
+            {inputFormat === 'playlist' && (
+              <div className="space-y-2">
+                <Label htmlFor="input-system">Playlist system</Label>
+                <Input
+                  id="input-system"
+                  value={systemName}
+                  onChange={(e) => setSystemName(e.target.value)}
+                  placeholder="Used for items without a db_name, e.g. Nintendo - GameCube"
+                />
+              </div>
+            )}
+
             <Textarea
-              value={inputJson}
-              onChange={(e) => setInputJson(e.target.value)}
-              placeholder="Paste your JSON here..."
+              value={inputText}
+              onChange={(e) => setInputText(e.target.value)}
+              placeholder={
+                inputFormat === 'csv'
+                  ? 'Paste your CSV or TSV here...'
+                  : inputFormat === 'gamelist'
+                    ? 'Paste your gamelist.xml here...'
+                    : inputFormat === 'playlist'
+                      ? 'Paste your .lpl playlist here...'
+                      : 'Paste your JSON here...'
+              }
               className="min-h-[400px] font-mono text-sm"
             />
 
@@ -969,10 +731,21 @@ export default function GameCoverResolver() {
               </Alert>
             )}
 
+            {warning && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{warning}</AlertDescription>
+              </Alert>
+            )}
+
             {isProcessing && (
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
-                  <span>Processing games...</span>
+                  <span>
+                    {isPaused
+                      ? 'Paused, running lookups finish first...'
+                      : 'Processing games...'}
+                  </span>
                   <span>
                     {processedCount}/{totalCount}
                   </span>
@@ -983,12 +756,54 @@ export default function GameCoverResolver() {
                     style={{ width: `${progressPercentage}%` }}
                   />
                 </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1"
+                    onClick={togglePause}
+                  >
+                    {isPaused ? (
+                      <>
+                        <Play className="mr-2 h-4 w-4" />
+                        Resume
+                      </>
+                    ) : (
+                      <>
+                        <Pause className="mr-2 h-4 w-4" />
+                        Pause
+                      </>
+                    )}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1"
+                    onClick={cancelProcessing}
+                  >
+                    <Square className="mr-2 h-4 w-4" />
+                    Cancel
+                  </Button>
+                </div>
               </div>
             )}
 
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="incremental"
+                checked={incremental}
+                onCheckedChange={setIncremental}
+                disabled={isProcessing}
+              />
+              <Label htmlFor="incremental" className="text-sm">
+                Only process games without a working cover, or that were not
+                found before
+              </Label>
+            </div>
+
             <Button
               onClick={processGames}
-              disabled={isProcessing || !inputJson.trim()}
+              disabled={isProcessing || !inputText.trim()}
               className="w-full"
             >
               {isProcessing ? (
@@ -999,12 +814,7 @@ export default function GameCoverResolver() {
               ) : (
                 <>
                   <RefreshCw className="mr-2 h-4 w-4" />
-                  Process Games with{' '}
-                  {activeApi === 'rawg'
-                    ? 'RAWG'
-                    : activeApi === 'thegamesdb'
-                      ? 'TheGamesDB'
-                      : 'IGDB'}
+                  Process Games with {chainLabel}
                 </>
               )}
             </Button>
@@ -1016,13 +826,7 @@ export default function GameCoverResolver() {
           <CardHeader>
             <CardTitle>Enhanced JSON</CardTitle>
             <CardDescription>
-              Your games with added imageUrl properties from{' '}
-              {activeApi === 'rawg'
-                ? 'RAWG'
-                : activeApi === 'thegamesdb'
-                  ? 'TheGamesDB'
-                  : 'IGDB'}{' '}
-              database.
+              Your games with added {imageField} properties from {chainLabel}.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -1050,58 +854,38 @@ export default function GameCoverResolver() {
                     <Download className="mr-2 h-4 w-4" />
                     Download
                   </Button>
+                  <Button onClick={downloadCsv} variant="outline">
+                    <FileSpreadsheet className="mr-2 h-4 w-4" />
+                    Download CSV
+                  </Button>
+                  {(exportSource?.format === 'gamelist' ||
+                    exportSource?.format === 'playlist') && (
+                    <Button onClick={downloadSource} variant="outline">
+                      <Download className="mr-2 h-4 w-4" />
+                      {exportSource.format === 'gamelist'
+                        ? 'gamelist.xml'
+                        : exportSource.fileName}
+                    </Button>
+                  )}
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="enriched-output"
+                    checked={enrichedOutput}
+                    onCheckedChange={setEnrichedOutput}
+                  />
+                  <Label htmlFor="enriched-output" className="text-sm">
+                    Include resolution details (provider, matched title, score
+                    and status) for each game
+                  </Label>
                 </div>
 
                 <Textarea
-                  value={JSON.stringify(outputJson, null, 2)}
+                  value={JSON.stringify(outputDocument, null, 2)}
                   readOnly
                   className="min-h-[400px] font-mono text-sm"
                 />
-
-                {/* Preview Section */}
-                <div className="mt-6">
-                  <h3 className="text-lg font-semibold mb-4">Preview</h3>
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-h-[300px] overflow-y-auto">
-                    {outputJson.slice(0, 6).map((game, index) => (
-                      <div
-                        key={index}
-                        className="flex items-center space-x-3 p-3 border rounded-lg"
-                      >
-                        {game.imageUrl ? (
-                          <img
-                            src={game.imageUrl || '/placeholder.svg'}
-                            alt={game.title}
-                            className="w-12 h-16 object-cover rounded"
-                            onError={(e) => {
-                              const target = e.target as HTMLImageElement
-                              target.src =
-                                '/placeholder.svg?height=64&width=48&text=No+Image'
-                            }}
-                          />
-                        ) : (
-                          <div className="w-12 h-16 bg-muted rounded flex items-center justify-center text-xs text-muted-foreground">
-                            No Image
-                          </div>
-                        )}
-                        <div className="flex-1 min-w-0">
-                          <p className="font-medium text-sm truncate">
-                            {game.title}
-                          </p>
-                          <p className="text-xs text-muted-foreground truncate">
-                            {game.systemName}
-                          </p>
-                        </div>
-                      </div>
-                    ))}
-                    {outputJson.length > 6 && (
-                      <div className="flex items-center justify-center p-3 border rounded-lg border-dashed">
-                        <p className="text-sm text-muted-foreground">
-                          +{outputJson.length - 6} more games
-                        </p>
-                      </div>
-                    )}
-                  </div>
-                </div>
               </>
             ) : (
               <div className="min-h-[400px] flex items-center justify-center text-muted-foreground">
@@ -1117,7 +901,32 @@ export default function GameCoverResolver() {
         </Card>
       </div>
 
-      <InstructionsCard activeApi={activeApi} />
+      {outputJson.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Review Matches</CardTitle>
+            <CardDescription>
+              Pick a different candidate for any game, or clear its image. Your
+              choice is reflected in the enhanced JSON.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CandidateReview
+              items={outputJson.map((game, index) => ({
+                game,
+                candidates: candidates[index] || [],
+                cached: resolutions[index]?.cached,
+              }))}
+              onSelect={selectCandidate}
+              onClear={(index) =>
+                setGameImage(index, undefined, { status: 'not_found' })
+              }
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <InstructionsCard activeProvider={activeProvider} />
     </div>
   )
 }
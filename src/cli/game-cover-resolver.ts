@@ -0,0 +1,353 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import { parseArgs } from 'node:util'
+import {
+  DEFAULT_CONCURRENCY,
+  DEFAULT_MIN_SCORE,
+  createMemoryCache,
+  describeMissingCredentials,
+  findPendingGames,
+  findUnknownSystems,
+  getProvider,
+  hasProvider,
+  listProviders,
+  resolveCovers,
+  withRateLimits,
+  type CoverProvider,
+  type ImageCheck,
+} from '@/lib/resolver'
+import { resolveServerCredentials } from '@/lib/server/credentials'
+import { guessColumns, parseTable } from '@/lib/formats/csv'
+import { DEFAULT_FIELD_MAPPING } from '@/lib/formats/json'
+import { playlistSystemName } from '@/lib/formats/retroarch'
+import {
+  formatFromFileName,
+  parseDocument,
+  writeDocument,
+  type InputFormat,
+} from '@/lib/formats/document'
+
+const FORMATS: InputFormat[] = ['json', 'csv', 'gamelist', 'playlist']
+
+// Exit codes
+const EXIT_ERROR = 1
+const EXIT_MISS_RATE = 2
+const EXIT_INTERRUPTED = 130
+
+const IMAGE_CHECK_TIMEOUT_MS = 10_000
+
+// "--rawg-api-key", "--igdb-client-secret", "--steamgriddb-art-type"
+function credentialFlag(provider: CoverProvider, key: string): string {
+  const kebab = key.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)
+  return `${provider.id}-${kebab}`
+}
+
+function usage(): string {
+  const credentialLines = listProviders().flatMap((provider) =>
+    provider.credentials.map((field) => {
+      const label = field.label.startsWith(provider.name)
+        ? field.label
+        : `${provider.name} ${field.label}`
+      return `  --${credentialFlag(provider, field.key).padEnd(28)}${label} (env ${field.envVar})`
+    }),
+  )
+  const optionLines = listProviders().flatMap((provider) =>
+    (provider.options || []).map((option) => {
+      const values =
+        option.type === 'toggle'
+          ? 'true|false'
+          : option.choices?.map((choice) => choice.value).join('|')
+      const list = option.type === 'multiselect' ? ', comma-separated' : ''
+      return `  --${credentialFlag(provider, option.key).padEnd(28)}${provider.name} ${option.label.toLowerCase()}: ${values}${list} (${option.default || 'any'})`
+    }),
+  )
+  return [
+    'Usage: game-cover-resolver --input <file> [options]',
+    '',
+    'Adds cover images to a JSON, CSV, EmulationStation gamelist.xml or',
+    'RetroArch playlist, and writes it back in the same format.',
+    '',
+    'Options:',
+    '  -i, --input <file>              Input file',
+    '  -o, --output <file>             Output file, stdout by default',
+    `  -f, --format <format>           ${FORMATS.join(', ')}; guessed from the file name`,
+    '  -p, --providers <ids>           Providers to try in order, e.g. "rawg,igdb"',
+    '  -s, --system <name>             System of a gamelist, or of playlist entries',
+    '                                  without a db_name',
+    '      --title-field <path>        JSON path or CSV column of the title',
+    '      --system-field <path>       JSON path or CSV column of the system',
+    '      --image-field <path>        JSON path that receives the image',
+    `  -c, --concurrency <n>           Games looked up at the same time (${DEFAULT_CONCURRENCY})`,
+    `      --min-score <0-1>           Minimum match score (${DEFAULT_MIN_SCORE})`,
+    '      --incremental               Only look up games without a working cover',
+    '      --enriched                  Add a coverResolution object to JSON output',
+    '      --max-miss-rate <0-1>       Exit with code 2 when more of the games',
+    '                                  looked up are missed',
+    '      --dry-run                   Look up covers and report, write nothing',
+    '  -q, --quiet                     Only report the summary',
+    '  -h, --help                      Show this help',
+    '',
+    'Credentials (flags take precedence over environment variables):',
+    ...credentialLines,
+    '',
+    'Provider options:',
+    ...optionLines,
+    '',
+    'Provider APIs are reached through their default base URLs unless',
+    'overridden with <PROVIDER>_BASE_URL, e.g. RAWG_BASE_URL.',
+  ].join('\n')
+}
+
+function parseNumber(
+  name: string,
+  value: string | undefined,
+  min: number,
+  max: number,
+): number | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+  const number = Number(value)
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new Error(`--${name} must be a number from ${min} to ${max}`)
+  }
+  return number
+}
+
+// Browsers load the image, here a HEAD request has to do
+const checkImage: ImageCheck = async (url) => {
+  try {
+    const response = await fetch(url, {
+      method: 'HEAD',
+      signal: AbortSignal.timeout(IMAGE_CHECK_TIMEOUT_MS),
+    })
+    return response.ok
+  } catch {
+    return false
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const providers = listProviders()
+  const credentialOptions = Object.fromEntries(
+    providers.flatMap((provider) =>
+      [...provider.credentials, ...(provider.options || [])].map((field) => [
+        credentialFlag(provider, field.key),
+        { type: 'string' as const },
+      ]),
+    ),
+  )
+
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      input: { type: 'string', short: 'i' },
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      providers: { type: 'string', short: 'p', default: 'rawg' },
+      system: { type: 'string', short: 's' },
+      'title-field': { type: 'string' },
+      'system-field': { type: 'string' },
+      'image-field': { type: 'string' },
+      concurrency: { type: 'string', short: 'c' },
+      'min-score': { type: 'string' },
+      incremental: { type: 'boolean', default: false },
+      enriched: { type: 'boolean', default: false },
+      'max-miss-rate': { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+      ...credentialOptions,
+    },
+  })
+  const flag = (name: string) => (values as Record<string, unknown>)[name]
+
+  if (values.help) {
+    console.log(usage())
+    return 0
+  }
+  if (!values.input) {
+    throw new Error('Missing --input. Run with --help for usage.')
+  }
+
+  const format = (values.format ||
+    formatFromFileName(values.input)) as InputFormat
+  if (!FORMATS.includes(format)) {
+    throw new Error(
+      `Cannot tell the format of ${values.input}. Pass --format ${FORMATS.join('|')}.`,
+    )
+  }
+  const concurrency =
+    parseNumber('concurrency', values.concurrency, 1, 64) ?? DEFAULT_CONCURRENCY
+  const minScore =
+    parseNumber('min-score', values['min-score'], 0, 1) ?? DEFAULT_MIN_SCORE
+  const maxMissRate = parseNumber(
+    'max-miss-rate',
+    values['max-miss-rate'],
+    0,
+    1,
+  )
+
+  const chain = values.providers
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .map((id) => {
+      if (!hasProvider(id)) {
+        throw new Error(
+          `Unknown provider "${id}". Available: ${providers.map((provider) => provider.id).join(', ')}`,
+        )
+      }
+      const provider = getProvider(id)
+      const supplied = Object.fromEntries(
+        [...provider.credentials, ...(provider.options || [])].map((field) => [
+          field.key,
+          flag(credentialFlag(provider, field.key)) as string | undefined,
+        ]),
+      )
+      const credentials = resolveServerCredentials(provider, supplied)
+      const missing = describeMissingCredentials(provider, credentials)
+      if (missing) {
+        throw new Error(missing)
+      }
+      return { provider, credentials }
+    })
+  if (chain.length === 0) {
+    throw new Error('Pass at least one provider with --providers')
+  }
+
+  const text = await readFile(values.input, 'utf8')
+  const csvColumns =
+    format === 'csv' ? guessColumns(parseTable(text).headers) : undefined
+  const { games, previous, source } = parseDocument(format, text, {
+    // Playlists are named after their system, e.g. "Nintendo - GameCube.lpl"
+    systemName:
+      values.system ??
+      (format === 'playlist' ? playlistSystemName(values.input) : ''),
+    mapping: {
+      title: values['title-field'] || DEFAULT_FIELD_MAPPING.title,
+      system: values['system-field'] || DEFAULT_FIELD_MAPPING.system,
+      image: values['image-field'] || DEFAULT_FIELD_MAPPING.image,
+    },
+    columns: {
+      title: values['title-field'] || csvColumns?.title || '',
+      system: values['system-field'] || csvColumns?.system || '',
+    },
+  })
+
+  const unknownSystems = findUnknownSystems(
+    games.map((game) => game.systemName),
+  )
+  if (unknownSystems.length > 0) {
+    console.error(
+      `Warning: no platform matches ${unknownSystems.map((name) => `"${name}"`).join(', ')}. These games are searched without a platform filter.`,
+    )
+  }
+
+  // Ctrl+C stops the run; the games resolved so far are still written
+  const controller = new AbortController()
+  const interrupt = () => controller.abort()
+  process.once('SIGINT', interrupt)
+
+  try {
+    const pending = values.incremental
+      ? await findPendingGames(
+          games,
+          previous.map((resolution) => resolution?.status),
+          checkImage,
+          controller.signal,
+        )
+      : games.map((_, i) => i)
+
+    console.error(
+      `Resolving ${pending.length} of ${games.length} games with ${chain.map((entry) => entry.provider.name).join(' → ')}`,
+    )
+
+    const result = await resolveCovers(games, {
+      chain: withRateLimits(chain),
+      concurrency,
+      pending,
+      previous,
+      minScore,
+      signal: controller.signal,
+      // Duplicate games within the run are only looked up once
+      cache: createMemoryCache(),
+      onRetry: ({ providerId, title, error, delayMs }) => {
+        if (!values.quiet) {
+          const reason = error instanceof Error ? error.message : error
+          console.error(
+            `Retrying ${getProvider(providerId).name} for ${title} in ${delayMs}ms: ${reason}`,
+          )
+        }
+      },
+      onError: ({ providerId, title, error }) => {
+        if (!values.quiet) {
+          const reason = error instanceof Error ? error.message : error
+          console.error(
+            `${getProvider(providerId).name} failed for ${title}: ${reason}`,
+          )
+        }
+      },
+      onProgress: ({ game, resolution, completed, total }) => {
+        if (values.quiet) {
+          return
+        }
+        const detail =
+          resolution.status === 'found'
+            ? `${resolution.providerId}, ${Math.round((resolution.score ?? 0) * 100)}%`
+            : resolution.error || resolution.status
+        console.error(`[${completed}/${total}] ${game.title}: ${detail}`)
+      },
+    })
+
+    const looked = pending.map((i) => result.resolutions[i])
+    const found = looked.filter((resolution) => resolution.status === 'found')
+    const failed = looked.filter((resolution) => resolution.status === 'error')
+    const missRate =
+      result.completed > 0
+        ? (result.completed - found.length) / result.completed
+        : 0
+    console.error(
+      `Found ${found.length} of ${result.completed} covers (${Math.round(missRate * 100)}% missed, ${failed.length} errors)${result.cancelled ? `, ${pending.length - result.completed} skipped` : ''}`,
+    )
+
+    if (values['dry-run']) {
+      console.error('Dry run, nothing written')
+    } else {
+      const output = writeDocument(
+        source,
+        result.games,
+        result.resolutions,
+        values.enriched,
+      )
+      if (values.output) {
+        await writeFile(values.output, output)
+        console.error(`Wrote ${values.output}`)
+      } else {
+        process.stdout.write(output + '\n')
+      }
+    }
+
+    if (result.cancelled) {
+      return EXIT_INTERRUPTED
+    }
+    if (maxMissRate !== undefined && missRate > maxMissRate) {
+      console.error(
+        `Miss rate ${Math.round(missRate * 100)}% exceeds --max-miss-rate ${Math.round(maxMissRate * 100)}%`,
+      )
+      return EXIT_MISS_RATE
+    }
+    return 0
+  } finally {
+    process.off('SIGINT', interrupt)
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code
+  },
+  (error) => {
+    console.error(error instanceof Error ? error.message : error)
+    process.exitCode = EXIT_ERROR
+  },
+)
@@ -0,0 +1,138 @@
+'use client'
+
+import { X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import {
+  getProvider,
+  type GameItem,
+  type ScoredCandidate,
+} from '@/lib/resolver'
+
+export interface ReviewItem {
+  game: GameItem
+  candidates: ScoredCandidate[]
+  // The match came from the local cache
+  cached?: boolean
+}
+
+interface CandidateReviewProps {
+  items: ReviewItem[]
+  onSelect: (index: number, candidate: ScoredCandidate) => void
+  onClear: (index: number) => void
+}
+
+function CoverImage(props: { src?: string; alt: string; className?: string }) {
+  if (!props.src) {
+    return (
+      <div
+        className={cn(
+          'bg-muted rounded flex items-center justify-center text-xs text-muted-foreground text-center',
+          props.className,
+        )}
+      >
+        No Image
+      </div>
+    )
+  }
+
+  return (
+    <img
+      src={props.src}
+      alt={props.alt}
+      className={cn('object-cover rounded', props.className)}
+      onError={(e) => {
+        const target = e.target as HTMLImageElement
+        target.src = '/placeholder.svg?height=64&width=48&text=No+Image'
+      }}
+    />
+  )
+}
+
+export function CandidateReview(props: CandidateReviewProps) {
+  return (
+    <div className="space-y-4 max-h-[600px] overflow-y-auto">
+      {props.items.map(({ game, candidates, cached }, index) => (
+        <div key={index} className="flex gap-4 p-3 border rounded-lg">
+          <div className="flex w-48 shrink-0 items-start space-x-3">
+            <CoverImage
+              src={game.imageUrl}
+              alt={game.title}
+              className="w-12 h-16 shrink-0"
+            />
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="font-medium text-sm truncate">{game.title}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {game.systemName}
+              </p>
+              {cached && (
+                <Badge variant="outline" className="px-1.5 text-[10px]">
+                  Cached
+                </Badge>
+              )}
+              {game.imageUrl && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => props.onClear(index)}
+                >
+                  <X className="mr-1 h-3 w-3" />
+                  Clear image
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-1 gap-2 overflow-x-auto pb-1">
+            {candidates.length === 0 && (
+              <p className="self-center text-sm text-muted-foreground">
+                No candidates found
+              </p>
+            )}
+            {candidates.map((scored) => {
+              const { candidate } = scored
+              const selected =
+                Boolean(game.imageUrl) && candidate.imageUrl === game.imageUrl
+              return (
+                <button
+                  key={`${candidate.providerId}-${candidate.id}`}
+                  type="button"
+                  onClick={() => props.onSelect(index, scored)}
+                  className={cn(
+                    'w-28 shrink-0 space-y-1 rounded-md border p-2 text-left transition-colors hover:bg-muted',
+                    selected && 'border-primary ring-1 ring-primary',
+                  )}
+                >
+                  <CoverImage
+                    src={candidate.thumbnailUrl || candidate.imageUrl}
+                    alt={candidate.title}
+                    className="w-full h-28"
+                  />
+                  <p className="text-xs font-medium line-clamp-2">
+                    {candidate.title}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {candidate.platformNames.join(', ') || 'Unknown platform'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {candidate.releaseDate?.slice(0, 4) || 'Unknown year'}
+                  </p>
+                  <div className="flex items-center justify-between gap-1">
+                    <Badge variant="secondary" className="px-1.5 text-[10px]">
+                      {getProvider(candidate.providerId).name}
+                    </Badge>
+                    <span className="text-xs font-medium">
+                      {Math.round(scored.score * 100)}%
+                    </span>
+                  </div>
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+'use client'
+
+import { useState } from 'react'
+import { Save, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { DEFAULT_PROFILE } from '@/hooks/use-field-mappings'
+import type { FieldMapping } from '@/lib/formats/json'
+
+interface FieldMappingEditorProps {
+  profiles: string[]
+  activeProfile: string
+  mapping: FieldMapping
+  onProfileChange: (name: string) => void
+  onMappingChange: (mapping: FieldMapping) => void
+  onSaveProfile: (name: string) => void
+  onDeleteProfile: (name: string) => void
+}
+
+const FIELDS: {
+  key: keyof FieldMapping
+  label: string
+  placeholder: string
+}[] = [
+  {
+    key: 'title',
+    label: 'Title field',
+    placeholder: 'e.g. name or game_title',
+  },
+  {
+    key: 'system',
+    label: 'System field',
+    placeholder: 'e.g. platform.name or console',
+  },
+  {
+    key: 'image',
+    label: 'Image output field',
+    placeholder: 'e.g. media.cover',
+  },
+]
+
+export function FieldMappingEditor(props: FieldMappingEditorProps) {
+  const [profileName, setProfileName] = useState('')
+
+  const saveProfile = () => {
+    const name = profileName.trim()
+    if (name) {
+      props.onSaveProfile(name)
+      setProfileName('')
+    }
+  }
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="space-y-2">
+        <Label htmlFor="mapping-profile">Field Mapping</Label>
+        <p className="text-xs text-muted-foreground">
+          Where each game object keeps its title and system, and where the cover
+          is written. Use dots for nested fields.
+        </p>
+        <div className="flex gap-2">
+          <Select
+            value={props.activeProfile}
+            onValueChange={props.onProfileChange}
+          >
+            <SelectTrigger id="mapping-profile" className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {props.profiles.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={props.activeProfile === DEFAULT_PROFILE}
+            onClick={() => props.onDeleteProfile(props.activeProfile)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {FIELDS.map((field) => (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={`mapping-${field.key}`} className="text-xs">
+              {field.label}
+            </Label>
+            <Input
+              id={`mapping-${field.key}`}
+              value={props.mapping[field.key]}
+              onChange={(e) =>
+                props.onMappingChange({
+                  ...props.mapping,
+                  [field.key]: e.target.value,
+                })
+              }
+              placeholder={field.placeholder}
+              className="font-mono text-xs"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && saveProfile()}
+          placeholder="Save as profile..."
+        />
+        <Button
+          variant="outline"
+          disabled={!profileName.trim()}
+          onClick={saveProfile}
+        >
+          <Save className="mr-2 h-4 w-4" />
+          Save
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,20 @@
-import { ApiType } from '@/app/page'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { listProviders, type CoverProvider } from '@/lib/resolver'
 
 interface InstructionsCardProps {
-  activeApi: ApiType
+  activeProvider: CoverProvider
+}
+
+function formatList(items: string[]) {
+  if (items.length <= 1) {
+    return items.join('')
+  }
+  return `${items.slice(0, -1).join(', ')}, or ${items[items.length - 1]}`
 }
 
 export function InstructionsCard(props: InstructionsCardProps) {
+  const providers = listProviders()
+
   return (
     <Card className="mt-6">
       <CardHeader>
@@ -14,42 +23,58 @@ export function InstructionsCard(props: InstructionsCardProps) {
       <CardContent>
         <ol className="list-decimal list-inside space-y-2 text-sm">
           <li>
-            Select your preferred game database API (RAWG, TheGamesDB, or IGDB)
+            Select your preferred game database API (
+            {formatList(providers.map((provider) => provider.name))})
           </li>
           <li>
-            {props.activeApi === 'rawg'
-              ? 'Optionally add your RAWG API key for better rate limits'
-              : props.activeApi === 'thegamesdb'
-                ? 'Add your TheGamesDB API key (required)'
-                : 'Add your IGDB Client ID and Client Secret (required)'}
+            Optionally add fallback providers, tried in order when a game has no
+            confident match
           </li>
+          <li>{props.activeProvider.credentialsHint}</li>
           <li>
             Paste your JSON array in the input field (each game needs 'title'
-            and 'systemName')
+            and 'systemName', or the fields set in the field mapping), or switch
+            to CSV, gamelist.xml or RetroArch to paste or upload a spreadsheet,
+            an EmulationStation gamelist or a .lpl playlist
+          </li>
+          <li>
+            Games may also carry their ROM file as 'crc', 'md5', 'sha1',
+            'romName' and 'size' fields or columns, which ScreenScraper uses to
+            identify them exactly
+          </li>
+          <li>
+            Click "Process Games" to fetch real cover images. You can pause or
+            cancel a run and keep the covers found so far
+          </li>
+          <li>
+            Lookups are cached in your browser for a week, so re-runs are fast.
+            Bypass or clear the cache to look games up again
+          </li>
+          <li>
+            To finish an earlier result, paste it back in and turn on "Only
+            process games without a working cover"
+          </li>
+          <li>
+            Review the enhanced JSON with imageUrl properties added, optionally
+            with a coverResolution object describing how each cover was found
+          </li>
+          <li>
+            Use "Review Matches" to pick a different cover or clear a wrong one
+          </li>
+          <li>
+            Copy to clipboard or download the result as JSON or CSV, including
+            the updated gamelist.xml or playlist when you started from one
           </li>
-          <li>Click "Process Games" to fetch real cover images</li>
-          <li>Review the enhanced JSON with imageUrl properties added</li>
-          <li>Copy to clipboard or download the result</li>
         </ol>
 
         <div className="mt-4 p-4 bg-muted rounded-lg">
           <p className="text-sm font-medium mb-2">About the APIs:</p>
           <div className="space-y-2 text-sm text-muted-foreground">
-            <p>
-              <strong>RAWG:</strong> Largest video game database with 500,000+
-              games. Works without an API key (limited to 1 request per second)
-              or with a free API key (20,000 requests per month).
-            </p>
-            <p>
-              <strong>TheGamesDB:</strong> Community-driven game database with
-              excellent retro game coverage. Requires an API key but offers
-              great results for older and obscure titles.
-            </p>
-            <p>
-              <strong>IGDB:</strong> Professional game database with
-              high-quality cover images and comprehensive data. Requires Twitch
-              Developer credentials (Client ID and Client Secret).
-            </p>
+            {providers.map((provider) => (
+              <p key={provider.id}>
+                <strong>{provider.name}:</strong> {provider.about}
+              </p>
+            ))}
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,137 @@
+'use client'
+
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { getProvider, listProviders, type ProviderId } from '@/lib/resolver'
+
+interface ProviderChainEditorProps {
+  chain: ProviderId[]
+  onChainChange: (chain: ProviderId[]) => void
+  minScore: number
+  onMinScoreChange: (minScore: number) => void
+  concurrency: number
+  onConcurrencyChange: (concurrency: number) => void
+}
+
+export function ProviderChainEditor(props: ProviderChainEditorProps) {
+  const { chain } = props
+  const unused = listProviders().filter(
+    (provider) => !chain.includes(provider.id),
+  )
+
+  const move = (index: number, offset: number) => {
+    const next = [...chain]
+    const [id] = next.splice(index, 1)
+    next.splice(index + offset, 0, id)
+    props.onChainChange(next)
+  }
+
+  const remove = (index: number) => {
+    props.onChainChange(chain.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Provider Order</Label>
+        <p className="text-xs text-muted-foreground">
+          Each game is looked up with the first provider. It falls through to
+          the next one when no cover or only a low-confidence match is found.
+        </p>
+        <ol className="space-y-2">
+          {chain.map((id, index) => (
+            <li
+              key={id}
+              className="flex items-center gap-2 p-2 border rounded-lg text-sm"
+            >
+              <span className="w-5 text-muted-foreground">{index + 1}.</span>
+              <span className="flex-1 font-medium">{getProvider(id).name}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={index === chain.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={chain.length === 1}
+                onClick={() => remove(index)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+        {unused.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {unused.map((provider) => (
+              <Button
+                key={provider.id}
+                variant="outline"
+                size="sm"
+                onClick={() => props.onChainChange([...chain, provider.id])}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                {provider.name}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label>Minimum Match Confidence</Label>
+          <span className="text-sm text-muted-foreground">
+            {Math.round(props.minScore * 100)}%
+          </span>
+        </div>
+        <Slider
+          value={[props.minScore * 100]}
+          min={0}
+          max={100}
+          step={5}
+          onValueChange={([value]) => props.onMinScoreChange(value / 100)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label>Parallel Games</Label>
+          <span className="text-sm text-muted-foreground">
+            {props.concurrency}
+          </span>
+        </div>
+        <Slider
+          value={[props.concurrency]}
+          min={1}
+          max={16}
+          step={1}
+          onValueChange={([value]) => props.onConcurrencyChange(value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          Requests to each provider stay within its rate limit:{' '}
+          {chain
+            .map((id) => {
+              const { name, rateLimit } = getProvider(id)
+              return `${name} ${rateLimit.requestsPerSecond}/s, ${rateLimit.maxConcurrent} at once`
+            })
+            .join('; ')}
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,225 @@
+'use client'
+
+import { useState } from 'react'
+import { Eye, EyeOff, Info } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import {
+  optionList,
+  type CoverProvider,
+  type CredentialField,
+  type ProviderCredentials,
+  type ProviderOption,
+} from '@/lib/resolver'
+
+function HelpTooltip(props: { text: string }) {
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-4 w-4 p-0 ml-1">
+            <Info className="h-3 w-3" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p className="w-80 text-xs">{props.text}</p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
+interface CredentialInputProps {
+  providerId: string
+  field: CredentialField
+  configuredOnServer: boolean
+  value: string
+  onChange: (value: string) => void
+}
+
+function CredentialInput(props: CredentialInputProps) {
+  const [visible, setVisible] = useState(false)
+  const inputId = `${props.providerId}-${props.field.key}`
+  const status = props.configuredOnServer
+    ? 'Configured on server'
+    : props.field.required
+      ? 'Required'
+      : 'Optional'
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center">
+        <Label htmlFor={inputId}>
+          {props.field.label} ({status})
+        </Label>
+        {props.field.help && <HelpTooltip text={props.field.help} />}
+      </div>
+      <div className="relative">
+        <Input
+          id={inputId}
+          type={visible ? 'text' : 'password'}
+          value={props.value}
+          onChange={(e) => props.onChange(e.target.value)}
+          placeholder={
+            props.configuredOnServer
+              ? `Leave empty to use the server's ${props.field.envVar}`
+              : props.field.placeholder
+          }
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="absolute right-0 top-0 h-full px-3"
+          onClick={() => setVisible(!visible)}
+        >
+          {visible ? (
+            <EyeOff className="h-4 w-4" />
+          ) : (
+            <Eye className="h-4 w-4" />
+          )}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface OptionInputProps {
+  providerId: string
+  option: ProviderOption
+  value: string
+  onChange: (value: string) => void
+}
+
+function OptionInput(props: OptionInputProps) {
+  const { option } = props
+  const inputId = `${props.providerId}-${option.key}`
+
+  if (option.type === 'toggle') {
+    return (
+      <div className="flex items-center gap-2">
+        <Switch
+          id={inputId}
+          checked={props.value === 'true'}
+          onCheckedChange={(checked) => props.onChange(String(checked))}
+        />
+        <Label htmlFor={inputId}>{option.label}</Label>
+        {option.help && <HelpTooltip text={option.help} />}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center">
+        <Label htmlFor={inputId}>{option.label}</Label>
+        {option.help && <HelpTooltip text={option.help} />}
+      </div>
+      {option.type === 'select' ? (
+        <Select value={props.value} onValueChange={props.onChange}>
+          <SelectTrigger id={inputId}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {option.choices?.map((choice) => (
+              <SelectItem key={choice.value} value={choice.value}>
+                {choice.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <ToggleGroup
+          id={inputId}
+          type="multiple"
+          variant="outline"
+          size="sm"
+          className="flex-wrap justify-start"
+          value={optionList(props.value)}
+          onValueChange={(values) => props.onChange(values.join(','))}
+        >
+          {option.choices?.map((choice) => (
+            <ToggleGroupItem key={choice.value} value={choice.value}>
+              {choice.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+    </div>
+  )
+}
+
+interface ProviderSettingsProps {
+  provider: CoverProvider
+  credentials: ProviderCredentials
+  // Credential keys the server provides from its environment
+  serverCredentials: string[]
+  onCredentialsChange: (credentials: ProviderCredentials) => void
+}
+
+export function ProviderSettings(props: ProviderSettingsProps) {
+  const { provider, credentials } = props
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-sm">{provider.description}</p>
+      </div>
+      <div className="space-y-4">
+        {provider.credentials.map((field) => (
+          <CredentialInput
+            key={field.key}
+            providerId={provider.id}
+            field={field}
+            configuredOnServer={props.serverCredentials.includes(field.key)}
+            value={credentials[field.key] || ''}
+            onChange={(value) =>
+              props.onCredentialsChange({ ...credentials, [field.key]: value })
+            }
+          />
+        ))}
+
+        {provider.options?.map((option) => (
+          <OptionInput
+            key={option.key}
+            providerId={provider.id}
+            option={option}
+            value={credentials[option.key] ?? option.default}
+            onChange={(value) =>
+              props.onCredentialsChange({ ...credentials, [option.key]: value })
+            }
+          />
+        ))}
+
+        <p className="text-xs text-muted-foreground">
+          {provider.signup.prefix}{' '}
+          <a
+            href={provider.signup.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:underline"
+          >
+            {provider.signup.label}
+          </a>
+          {provider.signup.suffix}
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+import * as React from 'react'
+import { DEFAULT_FIELD_MAPPING, type FieldMapping } from '@/lib/formats/json'
+
+const STORAGE_KEY = 'game-cover-resolver:field-mappings'
+
+export const DEFAULT_PROFILE = 'Default'
+
+interface StoredMappings {
+  active: string
+  profiles: Record<string, FieldMapping>
+}
+
+const INITIAL_STATE: StoredMappings = {
+  active: DEFAULT_PROFILE,
+  profiles: { [DEFAULT_PROFILE]: DEFAULT_FIELD_MAPPING },
+}
+
+function loadMappings(): StoredMappings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null')
+    if (stored?.profiles?.[stored.active]) {
+      return {
+        active: stored.active,
+        profiles: { ...INITIAL_STATE.profiles, ...stored.profiles },
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load field mappings:', error)
+  }
+  return INITIAL_STATE
+}
+
+// Named field mappings, persisted in localStorage. Edits apply to the active
+// profile.
+export function useFieldMappings() {
+  const [state, setState] = React.useState<StoredMappings>(INITIAL_STATE)
+  // Kept in state so nothing is saved before the stored mappings have
+  // rendered, which would overwrite them with the initial ones
+  const [loaded, setLoaded] = React.useState(false)
+
+  React.useEffect(() => {
+    setState(loadMappings())
+    setLoaded(true)
+  }, [])
+
+  React.useEffect(() => {
+    if (loaded) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+    }
+  }, [loaded, state])
+
+  const selectProfile = (name: string) => {
+    setState((prev) => (prev.profiles[name] ? { ...prev, active: name } : prev))
+  }
+
+  const updateMapping = (mapping: FieldMapping) => {
+    setState((prev) => ({
+      ...prev,
+      profiles: { ...prev.profiles, [prev.active]: mapping },
+    }))
+  }
+
+  // Save the active mapping under a new name and switch to it
+  const saveProfile = (name: string) => {
+    setState((prev) => ({
+      active: name,
+      profiles: { ...prev.profiles, [name]: prev.profiles[prev.active] },
+    }))
+  }
+
+  const deleteProfile = (name: string) => {
+    if (name === DEFAULT_PROFILE) {
+      return
+    }
+    setState((prev) => {
+      const { [name]: _, ...profiles } = prev.profiles
+      return {
+        active: prev.active === name ? DEFAULT_PROFILE : prev.active,
+        profiles,
+      }
+    })
+  }
+
+  return {
+    profiles: Object.keys(state.profiles),
+    activeProfile: state.active,
+    mapping: state.profiles[state.active],
+    selectProfile,
+    updateMapping,
+    saveProfile,
+    deleteProfile,
+  }
+}
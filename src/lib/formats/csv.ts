@@ -0,0 +1,199 @@
+import type { GameItem } from '@/lib/resolver/types'
+import { ROM_FIELDS, readRomFile } from '@/lib/formats/rom'
+
+// A CSV or TSV document with a header row. Rows are kept whole so they can
+// be written back with the resolved columns added.
+export interface Table {
+  headers: string[]
+  rows: string[][]
+  delimiter: string
+}
+
+// Header names of the columns holding the title and system of each game
+export interface TableColumns {
+  title: string
+  system: string
+}
+
+const TITLE_HEADER = /^(title|name|game|game[ _]?(title|name))$/i
+const SYSTEM_HEADER = /^(system|system[ _]?name|platform|console)$/i
+
+// Tabs in the header row mean TSV, semicolons are common in spreadsheets
+// exported with a European locale
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0]
+  const counts = ['\t', ';', ','].map((delimiter) => ({
+    delimiter,
+    count: header.split(delimiter).length - 1,
+  }))
+  const best = counts.reduce((a, b) => (b.count > a.count ? b : a))
+  return best.count > 0 ? best.delimiter : ','
+}
+
+// RFC 4180: quoted fields may contain delimiters, newlines and "" escapes
+function parseRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Skip blank lines, including the trailing newline
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''))
+}
+
+export function parseTable(text: string): Table {
+  const delimiter = detectDelimiter(text)
+  const [headers, ...rows] = parseRows(text.replace(/^\uFEFF/, ''), delimiter)
+
+  if (!headers) {
+    throw new Error('The CSV does not contain a header row')
+  }
+  if (rows.length === 0) {
+    throw new Error('The CSV does not contain any rows')
+  }
+
+  return { headers: headers.map((header) => header.trim()), rows, delimiter }
+}
+
+// Guess the title and system columns from common header names
+export function guessColumns(headers: string[]): TableColumns {
+  return {
+    title: headers.find((header) => TITLE_HEADER.test(header)) || '',
+    system: headers.find((header) => SYSTEM_HEADER.test(header)) || '',
+  }
+}
+
+export function tableToGames(table: Table, columns: TableColumns): GameItem[] {
+  const titleIndex = table.headers.indexOf(columns.title)
+  const systemIndex = table.headers.indexOf(columns.system)
+  // Written by an earlier run
+  const imageIndex = table.headers.indexOf('imageUrl')
+  // Optional ROM file columns, e.g. "crc" or "romName"
+  const romIndexes = new Map(
+    ROM_FIELDS.map((field) => [
+      field,
+      table.headers.findIndex(
+        (header) => header.toLowerCase() === field.toLowerCase(),
+      ),
+    ]),
+  )
+  if (titleIndex < 0 || systemIndex < 0) {
+    throw new Error('Choose the columns holding the title and system')
+  }
+
+  return table.rows.map((row, i) => {
+    const title = row[titleIndex]?.trim()
+    const systemName = row[systemIndex]?.trim()
+    if (!title || !systemName) {
+      // +2 for the header row and 1-based line numbers
+      throw new Error(`Row ${i + 2} is missing a title or system`)
+    }
+    return {
+      title,
+      systemName,
+      imageUrl: (imageIndex >= 0 && row[imageIndex]?.trim()) || undefined,
+      ...readRomFile((field) => row[romIndexes.get(field) ?? -1]),
+    }
+  })
+}
+
+// Build a table from JSON games, one column per property
+export function gamesToTable(games: object[]): Table {
+  const headers: string[] = []
+  for (const game of games) {
+    for (const key of Object.keys(game)) {
+      if (!headers.includes(key)) {
+        headers.push(key)
+      }
+    }
+  }
+
+  const rows = games.map((game) =>
+    headers.map((header) => {
+      const value = (game as Record<string, unknown>)[header]
+      if (value === undefined || value === null) {
+        return ''
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value)
+    }),
+  )
+
+  return { headers, rows, delimiter: ',' }
+}
+
+function encodeField(value: string, delimiter: string): string {
+  if (
+    value.includes(delimiter) ||
+    value.includes('"') ||
+    /[\r\n]/.test(value) ||
+    value !== value.trim()
+  ) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+// Write the table with one extra column per key of `columns`. Existing
+// columns of the same name, e.g. from an earlier run, are overwritten.
+export function writeTable(
+  table: Table,
+  columns: Record<string, string | undefined>[],
+): string {
+  const headers = [...table.headers]
+  for (const values of columns) {
+    for (const key of Object.keys(values)) {
+      if (!headers.includes(key)) {
+        headers.push(key)
+      }
+    }
+  }
+
+  const rows = table.rows.map((row, i) =>
+    headers.map((header, column) => {
+      const values = columns[i] || {}
+      return header in values ? values[header] || '' : row[column] || ''
+    }),
+  )
+
+  return [headers, ...rows]
+    .map((row) =>
+      row
+        .map((value) => encodeField(value, table.delimiter))
+        .join(table.delimiter),
+    )
+    .join('\n')
+}
@@ -0,0 +1,200 @@
+import type { CoverResolution, ResolutionStatus } from '@/lib/resolver/resolve'
+import type { GameItem } from '@/lib/resolver/types'
+import {
+  parseGamelist,
+  writeGamelist,
+  type GamelistEntry,
+} from '@/lib/formats/gamelist'
+import {
+  parseGameJson,
+  writeGameJson,
+  type FieldMapping,
+  type GameRecord,
+} from '@/lib/formats/json'
+import {
+  gamesToTable,
+  parseTable,
+  tableToGames,
+  writeTable,
+  type Table,
+  type TableColumns,
+} from '@/lib/formats/csv'
+import {
+  parsePlaylist,
+  writePlaylist,
+  type Playlist,
+} from '@/lib/formats/retroarch'
+
+export type InputFormat = 'json' | 'csv' | 'gamelist' | 'playlist'
+
+// Original document, kept to write the resolved images back into it
+export type ExportSource =
+  | { format: 'json'; records: GameRecord[]; mapping: FieldMapping }
+  | { format: 'gamelist'; xml: string; entries: GamelistEntry[] }
+  | { format: 'playlist'; playlist: Playlist; fileName: string }
+  | { format: 'csv'; table: Table }
+
+export interface ParseOptions {
+  // EmulationStation system folder name, e.g. "snes", or the RetroArch
+  // playlist name used for entries without a db_name
+  systemName?: string
+  mapping: FieldMapping
+  columns: TableColumns
+}
+
+export interface ParsedDocument {
+  games: GameItem[]
+  // Resolution details written by an earlier run, for incremental mode
+  previous: (CoverResolution | undefined)[]
+  source: ExportSource
+}
+
+// Guess the format from a file name, e.g. "Nintendo - GameCube.lpl"
+export function formatFromFileName(fileName: string): InputFormat | undefined {
+  const name = fileName.toLowerCase()
+  if (name.endsWith('.csv') || name.endsWith('.tsv')) {
+    return 'csv'
+  }
+  if (name.endsWith('.xml')) {
+    return 'gamelist'
+  }
+  if (name.endsWith('.lpl')) {
+    return 'playlist'
+  }
+  if (name.endsWith('.json')) {
+    return 'json'
+  }
+  return undefined
+}
+
+export function parseDocument(
+  format: InputFormat,
+  text: string,
+  options: ParseOptions,
+): ParsedDocument {
+  const systemName = options.systemName?.trim() || ''
+
+  if (format === 'gamelist') {
+    if (!systemName) {
+      throw new Error('Enter the system the gamelist.xml belongs to')
+    }
+    const gamelist = parseGamelist(text, systemName)
+    return {
+      games: gamelist.games,
+      previous: [],
+      source: { format, xml: text, entries: gamelist.entries },
+    }
+  }
+
+  if (format === 'csv') {
+    const table = parseTable(text)
+    const statusIndex = table.headers.indexOf('coverStatus')
+    return {
+      games: tableToGames(table, options.columns),
+      previous: table.rows.map((row) =>
+        statusIndex >= 0 && row[statusIndex]
+          ? { status: row[statusIndex] as ResolutionStatus }
+          : undefined,
+      ),
+      source: { format, table },
+    }
+  }
+
+  if (format === 'playlist') {
+    const { games, playlist } = parsePlaylist(text, systemName)
+    return {
+      games,
+      previous: [],
+      source: {
+        format,
+        playlist,
+        fileName: `${systemName || 'playlist'}.lpl`,
+      },
+    }
+  }
+
+  const { games, records } = parseGameJson(text, options.mapping)
+  return {
+    games,
+    previous: records.map((record) => {
+      const resolution = record.coverResolution as CoverResolution | undefined
+      return typeof resolution?.status === 'string' ? resolution : undefined
+    }),
+    source: { format, records, mapping: options.mapping },
+  }
+}
+
+// Field or column that receives the resolved image
+export function imageFieldOf(source: ExportSource | null): string {
+  return source?.format === 'json' ? source.mapping.image : 'imageUrl'
+}
+
+// JSON output. JSON input is written back in its own shape, with the image at
+// the mapped field; `enriched` adds a coverResolution object to every game.
+export function buildJsonDocument(
+  source: ExportSource | null,
+  games: GameItem[],
+  resolutions: CoverResolution[],
+  enriched = false,
+): object[] {
+  const document: object[] =
+    source?.format === 'json'
+      ? writeGameJson(source.records, games, source.mapping)
+      : games
+  return enriched
+    ? document.map((item, i) => ({ ...item, coverResolution: resolutions[i] }))
+    : document
+}
+
+// CSV output: the input table, or the games as a table, with the image and
+// the resolution details in their own columns
+export function buildCsv(
+  source: ExportSource | null,
+  games: GameItem[],
+  resolutions: CoverResolution[],
+): { content: string; delimiter: string } {
+  const table =
+    source?.format === 'csv'
+      ? source.table
+      : source?.format === 'json'
+        ? gamesToTable(source.records)
+        : gamesToTable(games.map(({ imageUrl, ...game }) => game))
+  const imageField = imageFieldOf(source)
+  const columns = games.map((game, index) => {
+    const resolution = resolutions[index]
+    return {
+      [imageField]: game.imageUrl,
+      coverStatus: resolution?.status,
+      coverProvider: resolution?.providerId,
+      coverGameId: resolution?.providerGameId?.toString(),
+      coverTitle: resolution?.matchedTitle,
+      coverScore: resolution?.score?.toFixed(2),
+      coverError: resolution?.error,
+      coverRetries: resolution?.retries?.toString(),
+    }
+  })
+  return { content: writeTable(table, columns), delimiter: table.delimiter }
+}
+
+// Write the output in the format of the input
+export function writeDocument(
+  source: ExportSource,
+  games: GameItem[],
+  resolutions: CoverResolution[],
+  enriched = false,
+): string {
+  switch (source.format) {
+    case 'gamelist':
+      return writeGamelist(source.xml, source.entries, games)
+    case 'playlist':
+      return writePlaylist(source.playlist, games)
+    case 'csv':
+      return buildCsv(source, games, resolutions).content
+    case 'json':
+      return JSON.stringify(
+        buildJsonDocument(source, games, resolutions, enriched),
+        null,
+        2,
+      )
+  }
+}
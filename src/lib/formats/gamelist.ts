@@ -0,0 +1,127 @@
+import type { GameItem } from '@/lib/resolver/types'
+import { nameFromPath } from '@/lib/formats/names'
+import { fileFromPath } from '@/lib/formats/rom'
+
+// A <game> element located by its offsets in the original document
+export interface GamelistEntry {
+  start: number
+  end: number
+  name: string
+  path?: string
+  // <image> already set in the document
+  image?: string
+}
+
+export interface ParsedGamelist {
+  games: GameItem[]
+  entries: GamelistEntry[]
+}
+
+const GAME_PATTERN = /<game\b[^>]*>[\s\S]*?<\/game>/g
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+function encodeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+function readTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))
+  return match ? decodeXml(match[1]) : undefined
+}
+
+// Parse the <game> entries of a gamelist.xml. ES keeps one gamelist per
+// system folder, so the system name applies to every game in it.
+export function parseGamelist(xml: string, systemName: string): ParsedGamelist {
+  if (!/<gameList\b/.test(xml)) {
+    throw new Error('Input is not an EmulationStation gamelist.xml')
+  }
+
+  const entries: GamelistEntry[] = []
+  for (const match of xml.matchAll(GAME_PATTERN)) {
+    const block = match[0]
+    const path = readTag(block, 'path')
+    const name = readTag(block, 'name') || (path ? nameFromPath(path) : '')
+    entries.push({
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + block.length,
+      name,
+      path,
+      image: readTag(block, 'image') || undefined,
+    })
+  }
+
+  if (entries.length === 0) {
+    throw new Error('The gamelist.xml does not contain any <game> entries')
+  }
+
+  return {
+    games: entries.map((entry) => ({
+      title: entry.name,
+      systemName,
+      imageUrl: entry.image,
+      romName: entry.path ? fileFromPath(entry.path) : undefined,
+    })),
+    entries,
+  }
+}
+
+// Replace the tag's value, or add the tag at the end of the <game> element
+// using the indentation of its existing children
+function setTag(block: string, tag: string, value: string): string {
+  const element = `<${tag}>${encodeXml(value)}</${tag}>`
+  const existing = new RegExp(`<${tag}\\s*/>|<${tag}>[\\s\\S]*?</${tag}>`)
+  if (existing.test(block)) {
+    return block.replace(existing, element)
+  }
+
+  const close = block.lastIndexOf('</game>')
+  const lineStart = block.lastIndexOf('\n', close)
+  if (lineStart < 0 || block.slice(lineStart, close).trim() !== '') {
+    return block.slice(0, close) + element + block.slice(close)
+  }
+
+  const indent = block.match(/\n([ \t]*)<\w/)?.[1] ?? '\t\t'
+  return (
+    block.slice(0, lineStart) + `\n${indent}${element}` + block.slice(lineStart)
+  )
+}
+
+// Write resolved images back into the original document. Games without a
+// new image, and everything outside <image>/<thumbnail>, are preserved.
+export function writeGamelist(
+  xml: string,
+  entries: GamelistEntry[],
+  games: GameItem[],
+): string {
+  let output = xml
+  // Work backwards so earlier offsets stay valid
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const imageUrl = games[i]?.imageUrl
+    if (!imageUrl || imageUrl === entries[i].image) {
+      continue
+    }
+    const { start, end } = entries[i]
+    let block = output.slice(start, end)
+    block = setTag(block, 'image', imageUrl)
+    block = setTag(block, 'thumbnail', imageUrl)
+    output = output.slice(0, start) + block + output.slice(end)
+  }
+  return output
+}
@@ -0,0 +1,128 @@
+import type { GameItem } from '@/lib/resolver/types'
+import { readRomFile } from '@/lib/formats/rom'
+
+// Dot-paths into each game object, e.g. "platform.name"
+export interface FieldMapping {
+  title: string
+  system: string
+  // Where the resolved image is written
+  image: string
+}
+
+export const DEFAULT_FIELD_MAPPING: FieldMapping = {
+  title: 'title',
+  system: 'systemName',
+  image: 'imageUrl',
+}
+
+export type GameRecord = Record<string, unknown>
+
+export interface ParsedGameJson {
+  games: GameItem[]
+  // The original objects, written back with the image set
+  records: GameRecord[]
+}
+
+function splitPath(path: string): string[] {
+  return path
+    .split('.')
+    .map((key) => key.trim())
+    .filter(Boolean)
+}
+
+export function getPath(record: unknown, path: string): unknown {
+  let value = record
+  for (const key of splitPath(path)) {
+    if (!value || typeof value !== 'object') {
+      return undefined
+    }
+    value = (value as GameRecord)[key]
+  }
+  return value
+}
+
+// Return a copy of the record with the value set, creating intermediate
+// objects as needed. An undefined value removes the key.
+export function setPath(
+  record: GameRecord,
+  path: string,
+  value: unknown,
+): GameRecord {
+  const [key, ...rest] = splitPath(path)
+  if (!key) {
+    return record
+  }
+
+  const copy = { ...record }
+  if (rest.length === 0) {
+    if (value === undefined) {
+      delete copy[key]
+    } else {
+      copy[key] = value
+    }
+    return copy
+  }
+
+  const child = copy[key]
+  if (value === undefined && (!child || typeof child !== 'object')) {
+    return copy
+  }
+  copy[key] = setPath(
+    child && typeof child === 'object' ? (child as GameRecord) : {},
+    rest.join('.'),
+    value,
+  )
+  return copy
+}
+
+function readText(record: GameRecord, path: string): string {
+  const value = getPath(record, path)
+  return typeof value === 'string' || typeof value === 'number'
+    ? String(value).trim()
+    : ''
+}
+
+export function parseGameJson(
+  text: string,
+  mapping: FieldMapping = DEFAULT_FIELD_MAPPING,
+): ParsedGameJson {
+  const records: GameRecord[] = JSON.parse(text)
+
+  if (!Array.isArray(records)) {
+    throw new Error('Input must be an array of games')
+  }
+
+  // Validate structure
+  const games = records.map((record) => {
+    const title = readText(record, mapping.title)
+    const systemName = readText(record, mapping.system)
+    if (!title || !systemName) {
+      throw new Error(
+        `Each game must have '${mapping.title}' and '${mapping.system}' properties`,
+      )
+    }
+
+    const year = record?.year
+    const imageUrl = getPath(record, mapping.image)
+    return {
+      title,
+      systemName,
+      year: typeof year === 'number' ? year : undefined,
+      imageUrl: typeof imageUrl === 'string' ? imageUrl : undefined,
+      ...readRomFile((field) => readText(record, field)),
+    }
+  })
+
+  return { games, records }
+}
+
+// Write each game's image into its original object at the mapped path
+export function writeGameJson(
+  records: GameRecord[],
+  games: GameItem[],
+  mapping: FieldMapping = DEFAULT_FIELD_MAPPING,
+): GameRecord[] {
+  return records.map((record, i) =>
+    setPath(record, mapping.image, games[i]?.imageUrl),
+  )
+}
@@ -0,0 +1,11 @@
+// Drop No-Intro style tags: "Super Mario World (USA) [!]" -> "Super Mario World"
+export function stripTags(name: string): string {
+  return name.replace(/\s*[([][^)\]]*[)\]]/g, '').trim()
+}
+
+// "./Super Mario World (USA) [!].sfc" -> "Super Mario World", using the
+// file inside an archive for RetroArch's "./roms.zip#Game (USA).sfc"
+export function nameFromPath(path: string): string {
+  const file = path.split(/[\\/#]/).pop() || path
+  return stripTags(file.replace(/\.[^.]+$/, ''))
+}
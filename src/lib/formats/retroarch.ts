@@ -0,0 +1,100 @@
+import type { GameItem } from '@/lib/resolver/types'
+import { nameFromPath, stripTags } from '@/lib/formats/names'
+import { fileFromPath } from '@/lib/formats/rom'
+
+// Entry of a RetroArch JSON playlist (RetroArch 1.7.6+). Fields we don't use
+// are kept as-is so the playlist can be written back.
+export interface PlaylistItem {
+  path?: string
+  label?: string
+  core_path?: string
+  core_name?: string
+  crc32?: string
+  // Database the entry was scanned against, e.g. "Nintendo - GameCube.lpl"
+  db_name?: string
+  [key: string]: unknown
+}
+
+export interface Playlist {
+  version?: string
+  items: PlaylistItem[]
+  [key: string]: unknown
+}
+
+export interface ParsedPlaylist {
+  games: GameItem[]
+  playlist: Playlist
+}
+
+// Item field that receives the resolved artwork. RetroArch ignores keys it
+// doesn't know, so the playlist stays loadable.
+export const PLAYLIST_IMAGE_FIELD = 'imageUrl'
+
+// "Nintendo - GameCube.lpl" -> "Nintendo - GameCube"
+export function playlistSystemName(fileName: string): string {
+  const file = fileName.split(/[\\/]/).pop() || fileName
+  return file.replace(/\.lpl$/i, '').trim()
+}
+
+// Manually added entries have "DETECT" or an empty db_name, so they are
+// looked up on `fallbackSystem`, usually the playlist's own file name.
+function itemSystemName(item: PlaylistItem, fallbackSystem: string): string {
+  if (!item.db_name || item.db_name === 'DETECT') {
+    return fallbackSystem
+  }
+  return playlistSystemName(item.db_name)
+}
+
+export function parsePlaylist(
+  text: string,
+  fallbackSystem = '',
+): ParsedPlaylist {
+  let playlist: Playlist
+  try {
+    playlist = JSON.parse(text)
+  } catch {
+    throw new Error(
+      'Input is not a JSON RetroArch playlist. Playlists in the old 6-line format need to be re-saved by RetroArch 1.7.6 or later.',
+    )
+  }
+
+  if (!playlist || !Array.isArray(playlist.items)) {
+    throw new Error("The playlist does not contain an 'items' array")
+  }
+  if (playlist.items.length === 0) {
+    throw new Error('The playlist does not contain any items')
+  }
+
+  const games = playlist.items.map((item) => {
+    const label = item.label ? stripTags(item.label) : ''
+    const systemName = itemSystemName(item, fallbackSystem)
+    if (!systemName) {
+      throw new Error(
+        `Cannot tell the system of "${item.label || item.path}". Enter the system the playlist belongs to.`,
+      )
+    }
+    const imageUrl = item[PLAYLIST_IMAGE_FIELD]
+    // "3D5E5D18|crc", or "00000000|crc" when the scanner didn't compute it
+    const crc = item.crc32?.split('|')[0]
+    return {
+      title: label || (item.path ? nameFromPath(item.path) : ''),
+      systemName,
+      imageUrl: typeof imageUrl === 'string' ? imageUrl : undefined,
+      crc: crc && !/^0+$/.test(crc) ? crc : undefined,
+      romName: item.path ? fileFromPath(item.path) : undefined,
+    }
+  })
+
+  return { games, playlist }
+}
+
+// Write resolved images back into a copy of the playlist. Items without a
+// resolved image are left untouched.
+export function writePlaylist(playlist: Playlist, games: GameItem[]): string {
+  const items = playlist.items.map((item, i) => {
+    const imageUrl = games[i]?.imageUrl
+    return imageUrl ? { ...item, [PLAYLIST_IMAGE_FIELD]: imageUrl } : item
+  })
+  // RetroArch writes playlists with two-space indentation
+  return JSON.stringify({ ...playlist, items }, null, 2)
+}
@@ -0,0 +1,38 @@
+import type { RomFile } from '@/lib/resolver/providers/types'
+
+// Input fields and columns describing the ROM file, named like RomFile
+export const ROM_FIELDS: (keyof RomFile)[] = [
+  'crc',
+  'md5',
+  'sha1',
+  'romName',
+  'size',
+]
+
+// The ROM file details the input has, leaving out empty values
+export function readRomFile(
+  read: (field: keyof RomFile) => string | undefined,
+): RomFile {
+  const rom: RomFile = {}
+  for (const field of ROM_FIELDS) {
+    const value = read(field)?.trim()
+    if (!value) {
+      continue
+    }
+    if (field === 'size') {
+      const size = Number(value)
+      if (Number.isInteger(size) && size > 0) {
+        rom.size = size
+      }
+    } else {
+      rom[field] = value
+    }
+  }
+  return rom
+}
+
+// "./roms/Sonic (USA).zip#Sonic (USA).md" -> "Sonic (USA).zip"
+export function fileFromPath(path: string): string {
+  const file = path.split('#')[0]
+  return file.split(/[\\/]/).pop() || file
+}
@@ -0,0 +1,22 @@
+const IMAGE_CHECK_TIMEOUT_MS = 10_000
+
+// Load the image the way the page displays it. Unlike fetch this works for
+// hosts that don't send CORS headers.
+export function checkImage(
+  url: string,
+  timeoutMs = IMAGE_CHECK_TIMEOUT_MS,
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    const image = new Image()
+    const timer = setTimeout(() => finish(false), timeoutMs)
+    const finish = (ok: boolean) => {
+      clearTimeout(timer)
+      image.onload = image.onerror = null
+      image.src = ''
+      resolve(ok)
+    }
+    image.onload = () => finish(true)
+    image.onerror = () => finish(false)
+    image.src = url
+  })
+}
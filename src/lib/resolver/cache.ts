@@ -0,0 +1,144 @@
+import type { GameQuery, ProviderId } from '@/lib/resolver/providers'
+import { normalizeTitle, type ScoredCandidate } from '@/lib/resolver/matching'
+import { findPlatform, normalizePlatformName } from '@/lib/resolver/platforms'
+import type { CoverMatch } from '@/lib/resolver/resolve'
+
+// The outcome of one provider lookup, as stored in the cache
+export interface CachedLookup {
+  match: CoverMatch | null
+  candidates: ScoredCandidate[]
+}
+
+export interface CoverCache {
+  get(key: string): Promise<CachedLookup | undefined>
+  set(key: string, lookup: CachedLookup): Promise<void>
+  clear(): Promise<void>
+}
+
+export const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+// Games with equivalent titles on the same platform share an entry, so
+// "Pokémon Red" and "Pokemon Red" on "gb" and "Game Boy" hit the same one.
+// The year ranks the candidates, so "Doom" from 1993 and 2016 don't.
+// Provider options that change the artwork get an entry of their own, and
+// so does each ROM file for providers that identify games by their file.
+export function cacheKey(
+  providerId: ProviderId,
+  query: GameQuery,
+  options: Record<string, string> = {},
+  romFile = false,
+): string {
+  const platform =
+    findPlatform(query.systemName)?.id ??
+    normalizePlatformName(query.systemName)
+  const key = [providerId, platform, normalizeTitle(query.title)]
+  if (query.year) {
+    key.push(`year=${query.year}`)
+  }
+  const rom = query.sha1 || query.md5 || query.crc || query.romName
+  if (romFile && rom) {
+    key.push(`rom=${rom.toLowerCase()}`)
+  }
+  const settings = Object.keys(options)
+    .sort()
+    .map((name) => `${name}=${options[name]}`)
+  if (settings.length > 0) {
+    key.push(settings.join('&'))
+  }
+  return key.join(':')
+}
+
+interface CacheEntry {
+  key: string
+  lookup: CachedLookup
+  storedAt: number
+}
+
+export function createMemoryCache(
+  ttlMs = DEFAULT_CACHE_TTL_MS,
+  now: () => number = Date.now,
+): CoverCache {
+  const entries = new Map<string, CacheEntry>()
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry || now() - entry.storedAt > ttlMs) {
+        entries.delete(key)
+        return undefined
+      }
+      return entry.lookup
+    },
+    async set(key, lookup) {
+      entries.set(key, { key, lookup, storedAt: now() })
+    },
+    async clear() {
+      entries.clear()
+    },
+  }
+}
+
+const DB_NAME = 'game-cover-resolver'
+const STORE_NAME = 'covers'
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, 1)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+  }
+  return settle(request)
+}
+
+// Cache persisted in the browser. Storage failures, like private browsing
+// without IndexedDB, are logged and treated as cache misses.
+export function createIndexedDBCache(
+  ttlMs = DEFAULT_CACHE_TTL_MS,
+  now: () => number = Date.now,
+): CoverCache {
+  let database: Promise<IDBDatabase> | null = null
+
+  const store = async (mode: IDBTransactionMode) => {
+    database ??= openDatabase()
+    return (await database)
+      .transaction(STORE_NAME, mode)
+      .objectStore(STORE_NAME)
+  }
+
+  return {
+    async get(key) {
+      try {
+        const entry: CacheEntry | undefined = await settle(
+          (await store('readonly')).get(key),
+        )
+        if (!entry) {
+          return undefined
+        }
+        if (now() - entry.storedAt > ttlMs) {
+          await settle((await store('readwrite')).delete(key))
+          return undefined
+        }
+        return entry.lookup
+      } catch (error) {
+        console.error('Failed to read the cover cache:', error)
+        return undefined
+      }
+    },
+    async set(key, lookup) {
+      try {
+        const entry: CacheEntry = { key, lookup, storedAt: now() }
+        await settle((await store('readwrite')).put(entry))
+      } catch (error) {
+        console.error('Failed to write the cover cache:', error)
+      }
+    },
+    async clear() {
+      await settle((await store('readwrite')).clear())
+    },
+  }
+}
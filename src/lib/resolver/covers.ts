@@ -0,0 +1,157 @@
+import type { ScoredCandidate } from '@/lib/resolver/matching'
+import {
+  describeResolution,
+  resolveWithChain,
+  type ChainEntry,
+  type ChainOptions,
+  type CoverResolution,
+} from '@/lib/resolver/resolve'
+import {
+  DEFAULT_CONCURRENCY,
+  createRateLimiter,
+  runConcurrently,
+  withRateLimit,
+  type PauseGate,
+} from '@/lib/resolver/scheduler'
+import type { GameItem } from '@/lib/resolver/types'
+
+export interface ResolveCoversOptions extends ChainOptions {
+  // Providers to try for each game, in order
+  chain: ChainEntry[]
+  // Games looked up at the same time
+  concurrency?: number
+  gate?: PauseGate
+  // Indexes of the games to look up, every game by default
+  pending?: number[]
+  // Resolutions kept for the games that are not pending
+  previous?: (CoverResolution | undefined)[]
+  // Called after each game that was looked up
+  onProgress?: (progress: ResolveProgress) => void
+}
+
+export interface ResolveProgress {
+  index: number
+  game: GameItem
+  resolution: CoverResolution
+  completed: number
+  total: number
+}
+
+export interface ResolveCoversResult {
+  games: GameItem[]
+  // Candidates per game, for manual review
+  candidates: ScoredCandidate[][]
+  resolutions: CoverResolution[]
+  // Games that were looked up
+  completed: number
+  cancelled: boolean
+}
+
+// One rate limiter per provider, shared by every game of a run
+export function withRateLimits(chain: ChainEntry[]): ChainEntry[] {
+  return chain.map((entry) => ({
+    ...entry,
+    provider: withRateLimit(
+      entry.provider,
+      createRateLimiter(entry.provider.rateLimit),
+    ),
+  }))
+}
+
+// Look up the covers of a list of games through a provider chain. Results
+// line up with `games`. Aborting the signal stops the run; the games
+// resolved so far are kept and the others reported as skipped.
+export async function resolveCovers(
+  games: GameItem[],
+  options: ResolveCoversOptions,
+): Promise<ResolveCoversResult> {
+  const {
+    chain,
+    concurrency = DEFAULT_CONCURRENCY,
+    gate,
+    pending = games.map((_, i) => i),
+    previous = [],
+    onProgress,
+    ...chainOptions
+  } = options
+  const { signal } = chainOptions
+  const pendingSet = new Set(pending)
+
+  const resolvedGames: GameItem[] = []
+  const candidates: ScoredCandidate[][] = []
+  const resolutions: CoverResolution[] = []
+  let completed = 0
+
+  await runConcurrently(
+    pending,
+    concurrency,
+    async (i) => {
+      const game = games[i]
+      const { title, systemName, year, crc, md5, sha1, romName, size } = game
+      try {
+        const result = await resolveWithChain(
+          chain,
+          { title, systemName, year, crc, md5, sha1, romName, size },
+          chainOptions,
+        )
+
+        resolvedGames[i] = {
+          ...game,
+          imageUrl: result.match?.imageUrl || undefined,
+        }
+        // Remember the resolved artwork on the matched candidate, so it
+        // shows as selected and its provenance can be exported
+        const match = result.match
+        candidates[i] = result.candidates.map((scored) =>
+          match && scored.candidate === match.candidate
+            ? {
+                ...scored,
+                candidate: { ...scored.candidate, imageUrl: match.imageUrl },
+              }
+            : scored,
+        )
+        resolutions[i] = describeResolution(result)
+      } catch (error) {
+        // Cancelled mid-lookup, filled in as skipped below
+        if (signal?.aborted) {
+          return
+        }
+        resolvedGames[i] = { ...game }
+        candidates[i] = []
+        resolutions[i] = {
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }
+      }
+      completed++
+      onProgress?.({
+        index: i,
+        game: resolvedGames[i],
+        resolution: resolutions[i],
+        completed,
+        total: pending.length,
+      })
+    },
+    { signal, gate },
+  )
+
+  // Games that were not looked up keep their original data: those left out
+  // of `pending`, and those a cancelled run never got to
+  games.forEach((game, i) => {
+    if (!resolutions[i]) {
+      resolvedGames[i] = { ...game }
+      candidates[i] = []
+      resolutions[i] = (!pendingSet.has(i) && previous[i]) || {
+        status: 'skipped',
+      }
+    }
+  })
+
+  return {
+    games: resolvedGames,
+    candidates,
+    resolutions,
+    completed,
+    cancelled: Boolean(signal?.aborted),
+  }
+}
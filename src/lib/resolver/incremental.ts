@@ -0,0 +1,39 @@
+import type { ResolutionStatus } from '@/lib/resolver/resolve'
+import { runConcurrently } from '@/lib/resolver/scheduler'
+import type { GameItem } from '@/lib/resolver/types'
+
+// Resolves to false when the image at the URL can't be loaded
+export type ImageCheck = (url: string) => Promise<boolean>
+
+const IMAGE_CHECK_CONCURRENCY = 8
+
+// Indexes of the games an incremental run still has to look up: those
+// without an image, with an image that fails to load, or that an earlier
+// run reported as not found. Only http(s) URLs are checked, local paths
+// like "./images/mario.png" are taken as present.
+export async function findPendingGames(
+  games: GameItem[],
+  previousStatuses: (ResolutionStatus | undefined)[],
+  checkImage: ImageCheck,
+  signal?: AbortSignal,
+): Promise<number[]> {
+  const pending = await runConcurrently(
+    games,
+    IMAGE_CHECK_CONCURRENCY,
+    async (game, index) => {
+      if (!game.imageUrl || previousStatuses[index] === 'not_found') {
+        return true
+      }
+      if (!/^https?:\/\//i.test(game.imageUrl)) {
+        return false
+      }
+      return !(await checkImage(game.imageUrl))
+    },
+    { signal },
+  )
+
+  // Games left unchecked by an abort count as pending
+  return games
+    .map((_, index) => index)
+    .filter((index) => pending[index] !== false)
+}
@@ -0,0 +1,75 @@
+// Public API of the cover resolver. It has no framework dependencies and is
+// shared by the page, the API routes and the CLI; import from
+// '@/lib/resolver' rather than from the modules behind it.
+//
+//   const results = await resolveCovers(games, {
+//     chain: withRateLimits([
+//       { provider: getProvider('rawg'), credentials: { apiKey } },
+//     ]),
+//     concurrency: 4,
+//     onProgress: ({ completed, total }) => console.log(completed, total),
+//   })
+//   results.games[0].imageUrl // the cover, or undefined
+//   results.resolutions[0] // which provider matched, with what score
+//
+// Providers run in chain order until one matches with at least `minScore`.
+// Requests are retried with backoff, and `signal` cancels the run. Passing a
+// `cache` skips lookups done before; `pending` limits the run to some games.
+
+export {
+  resolveCovers,
+  withRateLimits,
+  type ResolveCoversOptions,
+  type ResolveCoversResult,
+  type ResolveProgress,
+} from '@/lib/resolver/covers'
+export {
+  DEFAULT_MAX_CANDIDATES,
+  DEFAULT_MIN_SCORE,
+  describeResolution,
+  findGameCover,
+  resolveWithChain,
+  type ChainEntry,
+  type ChainOptions,
+  type CoverMatch,
+  type CoverResolution,
+  type CoverResult,
+  type LookupErrorEvent,
+  type ResolutionStatus,
+  type RetryEvent,
+} from '@/lib/resolver/resolve'
+export * from '@/lib/resolver/providers'
+export {
+  PLATFORMS,
+  findPlatform,
+  findUnknownSystems,
+  getPlatformIds,
+  normalizePlatformName,
+  type Platform,
+} from '@/lib/resolver/platforms'
+export {
+  normalizeTitle,
+  rankCandidates,
+  scoreCandidate,
+  titleSimilarity,
+  type ScoredCandidate,
+} from '@/lib/resolver/matching'
+export {
+  DEFAULT_CACHE_TTL_MS,
+  cacheKey,
+  createIndexedDBCache,
+  createMemoryCache,
+  type CachedLookup,
+  type CoverCache,
+} from '@/lib/resolver/cache'
+export {
+  DEFAULT_CONCURRENCY,
+  createPauseGate,
+  createRateLimiter,
+  withRateLimit,
+  type PauseGate,
+  type RateLimiter,
+} from '@/lib/resolver/scheduler'
+export { DEFAULT_RETRY_OPTIONS, type RetryOptions } from '@/lib/resolver/retry'
+export { findPendingGames, type ImageCheck } from '@/lib/resolver/incremental'
+export type { GameItem } from '@/lib/resolver/types'
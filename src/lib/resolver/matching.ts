@@ -0,0 +1,179 @@
+import type { CoverCandidate, GameQuery } from '@/lib/resolver/providers'
+
+export interface ScoredCandidate {
+  candidate: CoverCandidate
+  // Overall match confidence between 0 and 1
+  score: number
+  titleScore: number
+}
+
+// Relative weight of each signal in the overall score
+const TITLE_WEIGHT = 0.75
+const PLATFORM_WEIGHT = 0.15
+const YEAR_WEIGHT = 0.1
+
+// Applied when the titles carry different numbers, which usually means a
+// different entry in a series ("Luigi's Mansion" vs "Luigi's Mansion 3")
+const NUMBER_MISMATCH_PENALTY = 0.6
+
+// Highest score of a candidate known to be on another platform, below the
+// default minimum score so the same title on the wrong system isn't taken
+const PLATFORM_MISMATCH_MAX_SCORE = 0.7
+
+// "I" is left alone since it is far more often a word than a numeral, and
+// "X" since it is as often part of the name ("Mega Man X")
+const ROMAN_NUMERALS: Record<string, string> = {
+  ii: '2',
+  iii: '3',
+  iv: '4',
+  v: '5',
+  vi: '6',
+  vii: '7',
+  viii: '8',
+  ix: '9',
+  xi: '11',
+  xii: '12',
+  xiii: '13',
+  xiv: '14',
+  xv: '15',
+  xvi: '16',
+  xvii: '17',
+  xviii: '18',
+  xix: '19',
+  xx: '20',
+}
+
+const ARTICLES = new Set(['the', 'a', 'an'])
+
+export function normalizeTitle(title: string): string {
+  const words = title
+    // Before NFKD, which would expand "™" into "TM"
+    .replace(/[™®©℠]/g, '')
+    .normalize('NFKD')
+    // Strip diacritics left over from the decomposition
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    // Drop apostrophes so "Luigi's" and "Luigis" compare equal
+    .replace(/['’`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => ROMAN_NUMERALS[word] || word)
+
+  // Leading article, and the trailing form used by sorted lists ("Legend of Zelda, The")
+  if (words.length > 1 && ARTICLES.has(words[0])) {
+    words.shift()
+  }
+  if (words.length > 1 && ARTICLES.has(words[words.length - 1])) {
+    words.pop()
+  }
+
+  return words.join(' ')
+}
+
+function bigrams(value: string): Map<string, number> {
+  const counts = new Map<string, number>()
+  const compact = value.replace(/\s+/g, ' ')
+  for (let i = 0; i < compact.length - 1; i++) {
+    const bigram = compact.slice(i, i + 2)
+    counts.set(bigram, (counts.get(bigram) || 0) + 1)
+  }
+  return counts
+}
+
+function numbers(value: string): string {
+  return (value.match(/\d+/g) || []).join(' ')
+}
+
+// Sørensen–Dice coefficient over character bigrams of the normalized titles
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a)
+  const right = normalizeTitle(b)
+
+  if (left === right) {
+    return 1
+  }
+  if (left.length < 2 || right.length < 2) {
+    return 0
+  }
+
+  const leftBigrams = bigrams(left)
+  const rightBigrams = bigrams(right)
+  let overlap = 0
+  let total = 0
+
+  for (const [bigram, count] of leftBigrams) {
+    overlap += Math.min(count, rightBigrams.get(bigram) || 0)
+    total += count
+  }
+  for (const count of rightBigrams.values()) {
+    total += count
+  }
+
+  const similarity = (2 * overlap) / total
+  return numbers(left) === numbers(right)
+    ? similarity
+    : similarity * NUMBER_MISMATCH_PENALTY
+}
+
+function platformAgreement(
+  candidate: CoverCandidate,
+  platformIds: number[],
+): number {
+  // Unknown on either side is neither evidence for nor against
+  if (platformIds.length === 0 || candidate.platformIds.length === 0) {
+    return 0.5
+  }
+  return candidate.platformIds.some((id) => platformIds.includes(id)) ? 1 : 0
+}
+
+function yearAgreement(candidate: CoverCandidate, year?: number): number {
+  const candidateYear = candidate.releaseDate
+    ? parseInt(candidate.releaseDate.slice(0, 4), 10)
+    : NaN
+  if (!year || Number.isNaN(candidateYear)) {
+    return 0.5
+  }
+  const distance = Math.abs(candidateYear - year)
+  // Regional releases are often a year apart
+  return distance === 0 ? 1 : distance === 1 ? 0.5 : 0
+}
+
+export function scoreCandidate(
+  candidate: CoverCandidate,
+  query: GameQuery,
+  platformIds: number[],
+): ScoredCandidate {
+  const titleScore = titleSimilarity(candidate.title, query.title)
+  if (candidate.identified) {
+    return { candidate, score: 1, titleScore }
+  }
+  const platformScore = platformAgreement(candidate, platformIds)
+  const score =
+    titleScore * TITLE_WEIGHT +
+    platformScore * PLATFORM_WEIGHT +
+    yearAgreement(candidate, query.year) * YEAR_WEIGHT
+
+  return {
+    candidate,
+    score:
+      platformScore === 0
+        ? Math.min(score, PLATFORM_MISMATCH_MAX_SCORE)
+        : score,
+    titleScore,
+  }
+}
+
+// Candidates ordered from best to worst match, keeping the provider's order
+// for ties
+export function rankCandidates(
+  candidates: CoverCandidate[],
+  query: GameQuery,
+  platformIds: number[],
+): ScoredCandidate[] {
+  return candidates
+    .map((candidate) => scoreCandidate(candidate, query, platformIds))
+    .sort((a, b) => b.score - a.score)
+}
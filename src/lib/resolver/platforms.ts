@@ -0,0 +1,1097 @@
+import type { ProviderId } from '@/lib/resolver/providers/types'
+
+export interface Platform {
+  id: string
+  name: string
+  manufacturer: string
+  // Alternative names matched against systemName, besides the ID, the name
+  // itself, the name prefixed with the manufacturer and the libretro name.
+  // IDs and aliases cover the EmulationStation system folder names.
+  aliases: string[]
+  // libretro database and thumbnail folder name, e.g. "Nintendo - GameCube"
+  libretro?: string
+  // Platform IDs per provider, keyed by provider ID
+  ids: Partial<Record<ProviderId, number[]>>
+}
+
+export const PLATFORMS: Platform[] = [
+  // Microsoft
+  {
+    id: 'pc',
+    name: 'Windows',
+    manufacturer: 'Microsoft',
+    aliases: ['PC', 'Windows PC', 'Win'],
+    ids: {
+      rawg: [4],
+      thegamesdb: [1],
+      igdb: [6],
+      screenscraper: [138],
+      mobygames: [3],
+      giantbomb: [94],
+    },
+  },
+  {
+    id: 'dos',
+    name: 'MS-DOS',
+    manufacturer: 'Microsoft',
+    aliases: ['DOS', 'PC DOS'],
+    libretro: 'DOS',
+    ids: {
+      rawg: [4],
+      thegamesdb: [1],
+      igdb: [13],
+      screenscraper: [135],
+      mobygames: [2],
+      giantbomb: [94],
+    },
+  },
+  {
+    id: 'msx',
+    name: 'MSX',
+    manufacturer: 'Microsoft',
+    aliases: ['MSX2'],
+    libretro: 'Microsoft - MSX',
+    ids: {
+      thegamesdb: [4929],
+      igdb: [27, 53],
+      screenscraper: [113],
+      mobygames: [57],
+      giantbomb: [15],
+    },
+  },
+  {
+    id: 'xbox',
+    name: 'Xbox',
+    manufacturer: 'Microsoft',
+    aliases: [],
+    libretro: 'Microsoft - Xbox',
+    ids: {
+      rawg: [80],
+      thegamesdb: [14],
+      igdb: [11],
+      screenscraper: [32],
+      mobygames: [13],
+      giantbomb: [32],
+    },
+  },
+  {
+    id: 'xbox360',
+    name: 'Xbox 360',
+    manufacturer: 'Microsoft',
+    aliases: ['X360'],
+    ids: {
+      rawg: [14],
+      thegamesdb: [15],
+      igdb: [12],
+      screenscraper: [33],
+      mobygames: [69],
+      giantbomb: [20],
+    },
+  },
+  {
+    id: 'xboxone',
+    name: 'Xbox One',
+    manufacturer: 'Microsoft',
+    aliases: ['XB1', 'XONE'],
+    ids: {
+      rawg: [1],
+      thegamesdb: [4920],
+      igdb: [49],
+      screenscraper: [34],
+      mobygames: [142],
+      giantbomb: [145],
+    },
+  },
+  {
+    id: 'xboxseries',
+    name: 'Xbox Series X|S',
+    manufacturer: 'Microsoft',
+    aliases: ['Xbox Series X', 'Xbox Series S', 'XSX'],
+    ids: {
+      rawg: [186],
+      thegamesdb: [4981],
+      igdb: [169],
+      mobygames: [289],
+      giantbomb: [179],
+    },
+  },
+
+  // Nintendo
+  {
+    id: 'nes',
+    name: 'Nintendo Entertainment System',
+    manufacturer: 'Nintendo',
+    aliases: ['NES', 'Famicom', 'Family Computer'],
+    libretro: 'Nintendo - Nintendo Entertainment System',
+    ids: {
+      rawg: [49],
+      thegamesdb: [7],
+      igdb: [18, 99],
+      screenscraper: [3],
+      mobygames: [22],
+      giantbomb: [21],
+    },
+  },
+  {
+    id: 'fds',
+    name: 'Famicom Disk System',
+    manufacturer: 'Nintendo',
+    aliases: ['FDS'],
+    libretro: 'Nintendo - Family Computer Disk System',
+    ids: {
+      rawg: [49],
+      thegamesdb: [4936],
+      igdb: [51],
+      screenscraper: [106],
+      giantbomb: [91],
+    },
+  },
+  {
+    id: 'snes',
+    name: 'Super Nintendo Entertainment System',
+    manufacturer: 'Nintendo',
+    aliases: ['SNES', 'Super Nintendo', 'Super Famicom', 'SFC'],
+    libretro: 'Nintendo - Super Nintendo Entertainment System',
+    ids: {
+      rawg: [79],
+      thegamesdb: [6],
+      igdb: [19, 58],
+      screenscraper: [4],
+      mobygames: [15],
+      giantbomb: [9],
+    },
+  },
+  {
+    id: 'n64',
+    name: 'Nintendo 64',
+    manufacturer: 'Nintendo',
+    aliases: ['N64'],
+    libretro: 'Nintendo - Nintendo 64',
+    ids: {
+      rawg: [83],
+      thegamesdb: [3],
+      igdb: [4],
+      screenscraper: [14],
+      mobygames: [9],
+      giantbomb: [43],
+    },
+  },
+  {
+    id: 'gamecube',
+    name: 'GameCube',
+    manufacturer: 'Nintendo',
+    aliases: ['GC', 'NGC'],
+    libretro: 'Nintendo - GameCube',
+    ids: {
+      rawg: [105],
+      thegamesdb: [2],
+      igdb: [21],
+      screenscraper: [13],
+      mobygames: [14],
+      giantbomb: [23],
+    },
+  },
+  {
+    id: 'wii',
+    name: 'Wii',
+    manufacturer: 'Nintendo',
+    aliases: [],
+    libretro: 'Nintendo - Wii',
+    ids: {
+      rawg: [11],
+      thegamesdb: [9],
+      igdb: [5],
+      screenscraper: [16],
+      mobygames: [82],
+      giantbomb: [36],
+    },
+  },
+  {
+    id: 'wiiu',
+    name: 'Wii U',
+    manufacturer: 'Nintendo',
+    aliases: ['WiiU'],
+    ids: {
+      rawg: [10],
+      thegamesdb: [38],
+      igdb: [41],
+      screenscraper: [18],
+      mobygames: [132],
+      giantbomb: [139],
+    },
+  },
+  {
+    id: 'switch',
+    name: 'Switch',
+    manufacturer: 'Nintendo',
+    aliases: ['NSW'],
+    ids: {
+      rawg: [7],
+      thegamesdb: [4971],
+      igdb: [130],
+      screenscraper: [225],
+      mobygames: [203],
+      giantbomb: [157],
+    },
+  },
+  {
+    id: 'gb',
+    name: 'Game Boy',
+    manufacturer: 'Nintendo',
+    aliases: ['GB'],
+    libretro: 'Nintendo - Game Boy',
+    ids: {
+      rawg: [26],
+      thegamesdb: [4],
+      igdb: [33],
+      screenscraper: [9],
+      mobygames: [10],
+      giantbomb: [3],
+    },
+  },
+  {
+    id: 'gbc',
+    name: 'Game Boy Color',
+    manufacturer: 'Nintendo',
+    aliases: ['GBC'],
+    libretro: 'Nintendo - Game Boy Color',
+    ids: {
+      rawg: [43],
+      thegamesdb: [41],
+      igdb: [22],
+      screenscraper: [10],
+      mobygames: [11],
+      giantbomb: [57],
+    },
+  },
+  {
+    id: 'gba',
+    name: 'Game Boy Advance',
+    manufacturer: 'Nintendo',
+    aliases: ['GBA'],
+    libretro: 'Nintendo - Game Boy Advance',
+    ids: {
+      rawg: [24],
+      thegamesdb: [5],
+      igdb: [24],
+      screenscraper: [12],
+      mobygames: [12],
+      giantbomb: [4],
+    },
+  },
+  {
+    id: 'nds',
+    name: 'DS',
+    manufacturer: 'Nintendo',
+    aliases: ['NDS', 'DSi', 'Nintendo DSi'],
+    libretro: 'Nintendo - Nintendo DS',
+    ids: {
+      rawg: [9, 13],
+      thegamesdb: [8],
+      igdb: [20, 159],
+      screenscraper: [15],
+      mobygames: [44],
+      giantbomb: [52],
+    },
+  },
+  {
+    id: '3ds',
+    name: '3DS',
+    manufacturer: 'Nintendo',
+    aliases: ['N3DS', 'New Nintendo 3DS'],
+    libretro: 'Nintendo - Nintendo 3DS',
+    ids: {
+      rawg: [8],
+      thegamesdb: [4912],
+      igdb: [37, 137],
+      screenscraper: [17],
+      mobygames: [101],
+      giantbomb: [117],
+    },
+  },
+  {
+    id: 'virtualboy',
+    name: 'Virtual Boy',
+    manufacturer: 'Nintendo',
+    aliases: ['VB'],
+    libretro: 'Nintendo - Virtual Boy',
+    ids: {
+      thegamesdb: [4918],
+      igdb: [87],
+      screenscraper: [11],
+      mobygames: [38],
+      giantbomb: [79],
+    },
+  },
+  {
+    id: 'pokemini',
+    name: 'Pokémon Mini',
+    manufacturer: 'Nintendo',
+    aliases: ['Pokemon Mini'],
+    libretro: 'Nintendo - Pokemon Mini',
+    ids: {
+      thegamesdb: [4957],
+      igdb: [166],
+      screenscraper: [211],
+      mobygames: [152],
+    },
+  },
+  {
+    id: 'gameandwatch',
+    name: 'Game & Watch',
+    manufacturer: 'Nintendo',
+    aliases: [],
+    libretro: 'Handheld Electronic Game',
+    ids: { thegamesdb: [4950], igdb: [307], screenscraper: [52] },
+  },
+
+  // Sega
+  {
+    id: 'sg1000',
+    name: 'SG-1000',
+    manufacturer: 'Sega',
+    aliases: [],
+    libretro: 'Sega - SG-1000',
+    ids: {
+      thegamesdb: [4949],
+      igdb: [84],
+      screenscraper: [109],
+      mobygames: [114],
+      giantbomb: [141],
+    },
+  },
+  {
+    id: 'mastersystem',
+    name: 'Master System',
+    manufacturer: 'Sega',
+    aliases: ['SMS', 'Mark III', 'Sega Mark III'],
+    libretro: 'Sega - Master System - Mark III',
+    ids: {
+      rawg: [74],
+      thegamesdb: [35],
+      igdb: [64],
+      screenscraper: [2],
+      mobygames: [26],
+      giantbomb: [8],
+    },
+  },
+  {
+    id: 'genesis',
+    name: 'Genesis',
+    manufacturer: 'Sega',
+    aliases: [
+      'Mega Drive',
+      'MegaDrive',
+      'Sega Mega Drive',
+      'Sega Genesis/Mega Drive',
+      'MD',
+    ],
+    libretro: 'Sega - Mega Drive - Genesis',
+    ids: {
+      rawg: [167],
+      thegamesdb: [18, 36],
+      igdb: [29],
+      screenscraper: [1],
+      mobygames: [16],
+      giantbomb: [6],
+    },
+  },
+  {
+    id: 'segacd',
+    name: 'Sega CD',
+    manufacturer: 'Sega',
+    aliases: ['Mega CD', 'Mega-CD', 'Sega Mega-CD'],
+    libretro: 'Sega - Mega-CD - Sega CD',
+    ids: {
+      rawg: [119],
+      thegamesdb: [21],
+      igdb: [78],
+      screenscraper: [20],
+      mobygames: [20],
+      giantbomb: [29],
+    },
+  },
+  {
+    id: 'sega32x',
+    name: '32X',
+    manufacturer: 'Sega',
+    aliases: ['Genesis 32X', 'Mega Drive 32X'],
+    libretro: 'Sega - 32X',
+    ids: {
+      rawg: [117],
+      thegamesdb: [33],
+      igdb: [30],
+      screenscraper: [19],
+      mobygames: [21],
+      giantbomb: [31],
+    },
+  },
+  {
+    id: 'saturn',
+    name: 'Saturn',
+    manufacturer: 'Sega',
+    aliases: [],
+    libretro: 'Sega - Saturn',
+    ids: {
+      rawg: [107],
+      thegamesdb: [17],
+      igdb: [32],
+      screenscraper: [22],
+      mobygames: [23],
+      giantbomb: [42],
+    },
+  },
+  {
+    id: 'dreamcast',
+    name: 'Dreamcast',
+    manufacturer: 'Sega',
+    aliases: ['DC'],
+    libretro: 'Sega - Dreamcast',
+    ids: {
+      rawg: [106],
+      thegamesdb: [16],
+      igdb: [23],
+      screenscraper: [23],
+      mobygames: [8],
+      giantbomb: [37],
+    },
+  },
+  {
+    id: 'gamegear',
+    name: 'Game Gear',
+    manufacturer: 'Sega',
+    aliases: ['GG'],
+    libretro: 'Sega - Game Gear',
+    ids: {
+      rawg: [77],
+      thegamesdb: [20],
+      igdb: [35],
+      screenscraper: [21],
+      mobygames: [25],
+      giantbomb: [5],
+    },
+  },
+
+  // Sony
+  {
+    id: 'psx',
+    name: 'PlayStation',
+    manufacturer: 'Sony',
+    aliases: ['PS1', 'PSX', 'PSOne', 'PS One', 'PlayStation 1'],
+    libretro: 'Sony - PlayStation',
+    ids: {
+      rawg: [27],
+      thegamesdb: [10],
+      igdb: [7],
+      screenscraper: [57],
+      mobygames: [6],
+      giantbomb: [22],
+    },
+  },
+  {
+    id: 'ps2',
+    name: 'PlayStation 2',
+    manufacturer: 'Sony',
+    aliases: ['PS2'],
+    libretro: 'Sony - PlayStation 2',
+    ids: {
+      rawg: [15],
+      thegamesdb: [11],
+      igdb: [8],
+      screenscraper: [58],
+      mobygames: [7],
+      giantbomb: [19],
+    },
+  },
+  {
+    id: 'ps3',
+    name: 'PlayStation 3',
+    manufacturer: 'Sony',
+    aliases: ['PS3'],
+    libretro: 'Sony - PlayStation 3',
+    ids: {
+      rawg: [16],
+      thegamesdb: [12],
+      igdb: [9],
+      screenscraper: [59],
+      mobygames: [81],
+      giantbomb: [35],
+    },
+  },
+  {
+    id: 'ps4',
+    name: 'PlayStation 4',
+    manufacturer: 'Sony',
+    aliases: ['PS4'],
+    ids: {
+      rawg: [18],
+      thegamesdb: [4919],
+      igdb: [48],
+      screenscraper: [60],
+      mobygames: [141],
+      giantbomb: [146],
+    },
+  },
+  {
+    id: 'ps5',
+    name: 'PlayStation 5',
+    manufacturer: 'Sony',
+    aliases: ['PS5'],
+    ids: {
+      rawg: [187],
+      thegamesdb: [4980],
+      igdb: [167],
+      mobygames: [288],
+      giantbomb: [176],
+    },
+  },
+  {
+    id: 'psp',
+    name: 'PlayStation Portable',
+    manufacturer: 'Sony',
+    aliases: ['PSP'],
+    libretro: 'Sony - PlayStation Portable',
+    ids: {
+      rawg: [17],
+      thegamesdb: [13],
+      igdb: [38],
+      screenscraper: [61],
+      mobygames: [46],
+      giantbomb: [18],
+    },
+  },
+  {
+    id: 'psvita',
+    name: 'PlayStation Vita',
+    manufacturer: 'Sony',
+    aliases: ['PS Vita', 'Vita', 'PSV'],
+    libretro: 'Sony - PlayStation Vita',
+    ids: {
+      rawg: [19],
+      thegamesdb: [39],
+      igdb: [46],
+      screenscraper: [62],
+      mobygames: [105],
+      giantbomb: [129],
+    },
+  },
+
+  // Atari
+  {
+    id: 'atari2600',
+    name: 'Atari 2600',
+    manufacturer: 'Atari',
+    aliases: ['2600', 'VCS', 'Atari VCS'],
+    libretro: 'Atari - 2600',
+    ids: {
+      rawg: [23],
+      thegamesdb: [22],
+      igdb: [59],
+      screenscraper: [26],
+      mobygames: [28],
+      giantbomb: [40],
+    },
+  },
+  {
+    id: 'atari5200',
+    name: 'Atari 5200',
+    manufacturer: 'Atari',
+    aliases: ['5200'],
+    libretro: 'Atari - 5200',
+    ids: {
+      rawg: [31],
+      thegamesdb: [26],
+      igdb: [66],
+      screenscraper: [40],
+      mobygames: [33],
+      giantbomb: [67],
+    },
+  },
+  {
+    id: 'atari7800',
+    name: 'Atari 7800',
+    manufacturer: 'Atari',
+    aliases: ['7800'],
+    libretro: 'Atari - 7800',
+    ids: {
+      rawg: [28],
+      thegamesdb: [27],
+      igdb: [60],
+      screenscraper: [41],
+      mobygames: [34],
+      giantbomb: [70],
+    },
+  },
+  {
+    id: 'atari800',
+    name: 'Atari 8-bit',
+    manufacturer: 'Atari',
+    aliases: ['Atari 400', 'Atari 800', 'Atari XL', 'Atari XE', 'Atari XEGS'],
+    libretro: 'Atari - 8-bit',
+    ids: {
+      rawg: [25],
+      thegamesdb: [4943, 30],
+      igdb: [65],
+      screenscraper: [43],
+      mobygames: [39],
+      giantbomb: [24],
+    },
+  },
+  {
+    id: 'atarist',
+    name: 'Atari ST',
+    manufacturer: 'Atari',
+    aliases: ['ST'],
+    libretro: 'Atari - ST',
+    ids: {
+      rawg: [34],
+      thegamesdb: [4937],
+      igdb: [63],
+      screenscraper: [42],
+      mobygames: [24],
+      giantbomb: [13],
+    },
+  },
+  {
+    id: 'jaguar',
+    name: 'Jaguar',
+    manufacturer: 'Atari',
+    aliases: ['AtariJaguar'],
+    libretro: 'Atari - Jaguar',
+    ids: {
+      rawg: [112],
+      thegamesdb: [28],
+      igdb: [62],
+      screenscraper: [27],
+      mobygames: [17],
+      giantbomb: [28],
+    },
+  },
+  {
+    id: 'lynx',
+    name: 'Lynx',
+    manufacturer: 'Atari',
+    aliases: ['AtariLynx'],
+    libretro: 'Atari - Lynx',
+    ids: {
+      rawg: [46],
+      thegamesdb: [4924],
+      igdb: [61],
+      screenscraper: [28],
+      mobygames: [18],
+      giantbomb: [7],
+    },
+  },
+
+  // NEC
+  {
+    id: 'tg16',
+    name: 'TurboGrafx-16',
+    manufacturer: 'NEC',
+    aliases: ['PC Engine', 'PCEngine', 'PCE', 'TG16'],
+    libretro: 'NEC - PC Engine - TurboGrafx 16',
+    ids: {
+      thegamesdb: [34],
+      igdb: [86],
+      screenscraper: [31],
+      mobygames: [40],
+      giantbomb: [55],
+    },
+  },
+  {
+    id: 'tgcd',
+    name: 'TurboGrafx-CD',
+    manufacturer: 'NEC',
+    aliases: [
+      'PC Engine CD',
+      'PCEngineCD',
+      'PCE-CD',
+      'PC Engine CD-ROM2',
+      'TG-CD',
+    ],
+    libretro: 'NEC - PC Engine CD - TurboGrafx-CD',
+    ids: {
+      thegamesdb: [4955],
+      igdb: [150],
+      screenscraper: [114],
+      mobygames: [45],
+      giantbomb: [53],
+    },
+  },
+  {
+    id: 'pcfx',
+    name: 'PC-FX',
+    manufacturer: 'NEC',
+    aliases: [],
+    libretro: 'NEC - PC-FX',
+    ids: {
+      thegamesdb: [4930],
+      igdb: [274],
+      screenscraper: [72],
+      mobygames: [59],
+      giantbomb: [75],
+    },
+  },
+
+  // SNK
+  {
+    id: 'neogeo',
+    name: 'Neo Geo',
+    manufacturer: 'SNK',
+    aliases: ['NeoGeo', 'Neo Geo AES', 'Neo Geo MVS'],
+    libretro: 'SNK - Neo Geo',
+    ids: {
+      rawg: [12],
+      thegamesdb: [24],
+      igdb: [79, 80],
+      screenscraper: [142],
+      mobygames: [36],
+      giantbomb: [25],
+    },
+  },
+  {
+    id: 'neogeocd',
+    name: 'Neo Geo CD',
+    manufacturer: 'SNK',
+    aliases: [],
+    libretro: 'SNK - Neo Geo CD',
+    ids: {
+      thegamesdb: [4956],
+      igdb: [136],
+      screenscraper: [70],
+      mobygames: [54],
+      giantbomb: [59],
+    },
+  },
+  {
+    id: 'ngp',
+    name: 'Neo Geo Pocket',
+    manufacturer: 'SNK',
+    aliases: ['NGP'],
+    libretro: 'SNK - Neo Geo Pocket',
+    ids: {
+      thegamesdb: [4922],
+      igdb: [119],
+      screenscraper: [25],
+      mobygames: [52],
+      giantbomb: [80],
+    },
+  },
+  {
+    id: 'ngpc',
+    name: 'Neo Geo Pocket Color',
+    manufacturer: 'SNK',
+    aliases: ['NGPC'],
+    libretro: 'SNK - Neo Geo Pocket Color',
+    ids: {
+      thegamesdb: [4923],
+      igdb: [120],
+      screenscraper: [82],
+      mobygames: [53],
+      giantbomb: [81],
+    },
+  },
+
+  // Commodore
+  {
+    id: 'c64',
+    name: 'Commodore 64',
+    manufacturer: 'Commodore',
+    aliases: ['C64'],
+    libretro: 'Commodore - 64',
+    ids: {
+      rawg: [166],
+      thegamesdb: [40],
+      igdb: [15],
+      screenscraper: [66],
+      mobygames: [27],
+      giantbomb: [14],
+    },
+  },
+  {
+    id: 'amiga',
+    name: 'Amiga',
+    manufacturer: 'Commodore',
+    aliases: [],
+    libretro: 'Commodore - Amiga',
+    ids: {
+      rawg: [166],
+      thegamesdb: [4911],
+      igdb: [16],
+      screenscraper: [64],
+      mobygames: [19],
+      giantbomb: [1],
+    },
+  },
+  {
+    id: 'amigacd32',
+    name: 'Amiga CD32',
+    manufacturer: 'Commodore',
+    aliases: ['CD32'],
+    libretro: 'Commodore - CD32',
+    ids: {
+      thegamesdb: [4947],
+      igdb: [114],
+      screenscraper: [130],
+      mobygames: [56],
+      giantbomb: [39],
+    },
+  },
+
+  // Other home computers and consoles
+  {
+    id: 'zxspectrum',
+    name: 'ZX Spectrum',
+    manufacturer: 'Sinclair',
+    aliases: ['Spectrum'],
+    libretro: 'Sinclair - ZX Spectrum',
+    ids: {
+      thegamesdb: [4913],
+      igdb: [26],
+      screenscraper: [76],
+      mobygames: [41],
+      giantbomb: [16],
+    },
+  },
+  {
+    id: 'amstradcpc',
+    name: 'CPC',
+    manufacturer: 'Amstrad',
+    aliases: [],
+    libretro: 'Amstrad - CPC',
+    ids: {
+      thegamesdb: [4914],
+      igdb: [25],
+      screenscraper: [65],
+      mobygames: [60],
+      giantbomb: [11],
+    },
+  },
+  {
+    id: 'x68000',
+    name: 'X68000',
+    manufacturer: 'Sharp',
+    aliases: [],
+    libretro: 'Sharp - X68000',
+    ids: {
+      thegamesdb: [4931],
+      igdb: [121],
+      screenscraper: [79],
+      mobygames: [106],
+      giantbomb: [95],
+    },
+  },
+  {
+    id: 'wonderswan',
+    name: 'WonderSwan',
+    manufacturer: 'Bandai',
+    aliases: ['WS'],
+    libretro: 'Bandai - WonderSwan',
+    ids: {
+      thegamesdb: [4925],
+      igdb: [57],
+      screenscraper: [45],
+      mobygames: [48],
+      giantbomb: [65],
+    },
+  },
+  {
+    id: 'wonderswancolor',
+    name: 'WonderSwan Color',
+    manufacturer: 'Bandai',
+    aliases: ['WSC'],
+    libretro: 'Bandai - WonderSwan Color',
+    ids: {
+      thegamesdb: [4926],
+      igdb: [123],
+      screenscraper: [46],
+      mobygames: [49],
+      giantbomb: [54],
+    },
+  },
+  {
+    id: '3do',
+    name: '3DO Interactive Multiplayer',
+    manufacturer: 'Panasonic',
+    aliases: ['3DO'],
+    libretro: 'The 3DO Company - 3DO',
+    ids: {
+      rawg: [111],
+      thegamesdb: [25],
+      igdb: [50],
+      screenscraper: [29],
+      mobygames: [35],
+      giantbomb: [26],
+    },
+  },
+  {
+    id: 'cdi',
+    name: 'CD-i',
+    manufacturer: 'Philips',
+    aliases: ['CDiMono1'],
+    libretro: 'Philips - CD-i',
+    ids: {
+      thegamesdb: [4917],
+      igdb: [117],
+      screenscraper: [133],
+      mobygames: [73],
+      giantbomb: [27],
+    },
+  },
+  {
+    id: 'colecovision',
+    name: 'ColecoVision',
+    manufacturer: 'Coleco',
+    aliases: [],
+    libretro: 'Coleco - ColecoVision',
+    ids: {
+      thegamesdb: [31],
+      igdb: [68],
+      screenscraper: [48],
+      mobygames: [29],
+      giantbomb: [47],
+    },
+  },
+  {
+    id: 'intellivision',
+    name: 'Intellivision',
+    manufacturer: 'Mattel',
+    aliases: [],
+    libretro: 'Mattel - Intellivision',
+    ids: {
+      thegamesdb: [32],
+      igdb: [67],
+      screenscraper: [115],
+      mobygames: [30],
+      giantbomb: [51],
+    },
+  },
+  {
+    id: 'vectrex',
+    name: 'Vectrex',
+    manufacturer: 'GCE',
+    aliases: [],
+    libretro: 'GCE - Vectrex',
+    ids: {
+      thegamesdb: [4939],
+      igdb: [70],
+      screenscraper: [102],
+      mobygames: [37],
+      giantbomb: [76],
+    },
+  },
+  {
+    id: 'arcade',
+    name: 'Arcade',
+    manufacturer: 'Various',
+    aliases: [
+      'MAME',
+      'FinalBurn Neo',
+      'FBNeo',
+      'FBNeo - Arcade Games',
+      'CPS1',
+      'CPS2',
+      'CPS3',
+    ],
+    libretro: 'MAME',
+    ids: {
+      thegamesdb: [23],
+      igdb: [52],
+      screenscraper: [75],
+      mobygames: [143],
+      giantbomb: [84],
+    },
+  },
+
+  // Mobile and other operating systems
+  {
+    id: 'mac',
+    name: 'Mac',
+    manufacturer: 'Apple',
+    aliases: ['macOS', 'Mac OS', 'Macintosh', 'OS X'],
+    ids: {
+      rawg: [5, 55],
+      thegamesdb: [37],
+      igdb: [14],
+      screenscraper: [146],
+      mobygames: [74],
+      giantbomb: [17],
+    },
+  },
+  {
+    id: 'ios',
+    name: 'iOS',
+    manufacturer: 'Apple',
+    aliases: ['iPhone', 'iPad'],
+    ids: {
+      rawg: [3],
+      thegamesdb: [4915],
+      igdb: [39],
+      mobygames: [86],
+      giantbomb: [96],
+    },
+  },
+  {
+    id: 'android',
+    name: 'Android',
+    manufacturer: 'Google',
+    aliases: [],
+    ids: {
+      rawg: [21],
+      thegamesdb: [4916],
+      igdb: [34],
+      mobygames: [91],
+      giantbomb: [123],
+    },
+  },
+]
+
+export function normalizePlatformName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+const platformsByAlias = new Map<string, Platform>()
+for (const platform of PLATFORMS) {
+  const names = [
+    platform.id,
+    platform.name,
+    `${platform.manufacturer} ${platform.name}`,
+    ...(platform.libretro ? [platform.libretro] : []),
+    ...platform.aliases,
+  ]
+  for (const name of names) {
+    const key = normalizePlatformName(name)
+    // The first platform claiming an alias wins
+    if (!platformsByAlias.has(key)) {
+      platformsByAlias.set(key, platform)
+    }
+  }
+}
+
+export function findPlatform(systemName: string): Platform | undefined {
+  return platformsByAlias.get(normalizePlatformName(systemName))
+}
+
+export function getPlatformIds(
+  providerId: ProviderId,
+  systemName: string,
+): number[] {
+  return findPlatform(systemName)?.ids[providerId] || []
+}
+
+// System names without a matching platform, in first-seen order
+export function findUnknownSystems(systemNames: string[]): string[] {
+  const unknown = new Set<string>()
+  for (const systemName of systemNames) {
+    if (!findPlatform(systemName)) {
+      unknown.add(systemName)
+    }
+  }
+  return Array.from(unknown)
+}
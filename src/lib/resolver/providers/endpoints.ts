@@ -0,0 +1,30 @@
+// Base URLs of the provider APIs can be pointed elsewhere, e.g. at a mirror
+// or at the local stand-in server the tests run against. An override set in
+// code wins over the environment, which wins over the default.
+const overrides = new Map<string, string>()
+
+// "thegamesdb" -> "THEGAMESDB_BASE_URL", "twitch-auth" -> "TWITCH_AUTH_BASE_URL"
+export function baseUrlEnvVar(name: string): string {
+  return `${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_BASE_URL`
+}
+
+export function getBaseUrl(name: string, defaultUrl: string): string {
+  const url =
+    overrides.get(name) ||
+    // Only the server has an environment; the browser uses the defaults
+    (typeof process !== 'undefined'
+      ? process.env?.[baseUrlEnvVar(name)]
+      : undefined) ||
+    defaultUrl
+  return url.replace(/\/+$/, '')
+}
+
+export function setBaseUrls(urls: Record<string, string>) {
+  for (const [name, url] of Object.entries(urls)) {
+    overrides.set(name, url)
+  }
+}
+
+export function resetBaseUrls() {
+  overrides.clear()
+}
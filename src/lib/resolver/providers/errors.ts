@@ -0,0 +1,48 @@
+// A failed request to a provider, keeping what is needed to decide whether
+// and when to retry it
+export class ProviderError extends Error {
+  readonly status: number
+  // Delay requested by the provider through Retry-After
+  readonly retryAfterMs?: number
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message)
+    this.name = 'ProviderError'
+    this.status = status
+    this.retryAfterMs = retryAfterMs
+  }
+
+  get rateLimited(): boolean {
+    return this.status === 429
+  }
+}
+
+// fetch and AbortSignal.throwIfAborted() reject with an "AbortError"
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(
+  value: string | null,
+  now: () => number = Date.now,
+): number | undefined {
+  if (!value) {
+    return undefined
+  }
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now())
+}
+
+// "RAWG API error: 503"
+export function responseError(label: string, response: Response) {
+  return new ProviderError(
+    `${label} error: ${response.status}`,
+    response.status,
+    parseRetryAfter(response.headers.get('Retry-After')),
+  )
+}
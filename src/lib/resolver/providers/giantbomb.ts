@@ -0,0 +1,162 @@
+import type {
+  CoverProvider,
+  ProviderCredentials,
+  GameQuery,
+  CoverCandidate,
+} from '@/lib/resolver/providers/types'
+import { getPlatformIds } from '@/lib/resolver/platforms'
+import { ProviderError, responseError } from '@/lib/resolver/providers/errors'
+import { getBaseUrl } from '@/lib/resolver/providers/endpoints'
+import { readOptions } from '@/lib/resolver/providers/options'
+
+interface GiantBombImage {
+  icon_url: string
+  medium_url: string
+  screen_url: string
+  small_url: string
+  super_url: string
+  thumb_url: string
+  tiny_url: string
+  original_url: string
+}
+
+interface GiantBombGame {
+  id: number
+  name: string
+  // "1991-06-23 00:00:00"
+  original_release_date?: string | null
+  platforms?: { id: number; name: string; abbreviation: string }[] | null
+  image?: GiantBombImage | null
+}
+
+interface GiantBombResponse {
+  error: string
+  // 1 is OK, anything else an error described by `error`
+  status_code: number
+  number_of_total_results: number
+  results: GiantBombGame[]
+}
+
+type ImageSize = 'original_url' | 'super_url' | 'medium_url' | 'small_url'
+
+const DEFAULT_BASE_URL = 'https://www.giantbomb.com/api'
+
+const FIELDS = 'id,name,original_release_date,platforms,image'
+
+const STATUS_OK = 1
+const STATUS_RATE_LIMIT_EXCEEDED = 107
+
+function requireKey(credentials: ProviderCredentials): string {
+  if (!credentials.apiKey) {
+    throw new Error('Giant Bomb API requires an API key')
+  }
+  return credentials.apiKey
+}
+
+// Games without art point at Giant Bomb's placeholder image
+function imageOf(game: GiantBombGame, size: ImageSize): string | undefined {
+  const url = game.image?.[size]
+  return url && !url.includes('gb_default') ? url : undefined
+}
+
+async function search(
+  query: GameQuery,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal,
+): Promise<CoverCandidate[]> {
+  const apiKey = requireKey(credentials)
+  const ids = getPlatformIds('giantbomb', query.systemName)
+  const size = readOptions(giantBombProvider, credentials)
+    .imageSize as ImageSize
+
+  // Filters are comma-separated, with alternatives separated by "|"
+  const filters = [`name:${query.title.replace(/,/g, ' ')}`]
+  if (ids.length > 0) {
+    filters.push(`platforms:${ids.join('|')}`)
+  }
+  const params = new URLSearchParams({
+    api_key: apiKey,
+    format: 'json',
+    filter: filters.join(','),
+    field_list: FIELDS,
+    limit: '10',
+  })
+
+  const baseUrl = getBaseUrl('giantbomb', DEFAULT_BASE_URL)
+  const response = await fetch(`${baseUrl}/games/?${params}`, {
+    // Giant Bomb rejects requests without a descriptive user agent
+    headers: { 'User-Agent': 'game-cover-resolver' },
+    signal,
+  })
+
+  if (!response.ok) {
+    throw responseError('Giant Bomb API', response)
+  }
+
+  const data: GiantBombResponse = await response.json()
+  // Some errors, like going over the rate limit, come with a 200
+  if (data.status_code !== STATUS_OK) {
+    throw new ProviderError(
+      `Giant Bomb API error: ${data.error}`,
+      data.status_code === STATUS_RATE_LIMIT_EXCEEDED ? 429 : 400,
+    )
+  }
+
+  return (data.results || []).map((game) => ({
+    providerId: 'giantbomb',
+    id: game.id,
+    title: game.name,
+    platformIds: game.platforms?.map((platform) => platform.id) || [],
+    platformNames: game.platforms?.map((platform) => platform.name) || [],
+    releaseDate: game.original_release_date?.slice(0, 10),
+    imageUrl: imageOf(game, size),
+    thumbnailUrl: imageOf(game, 'small_url'),
+  }))
+}
+
+async function resolveArtwork(candidate: CoverCandidate): Promise<string> {
+  // The search response already carries the image in the chosen size
+  return candidate.imageUrl || ''
+}
+
+export const giantBombProvider: CoverProvider = {
+  id: 'giantbomb',
+  name: 'Giant Bomb',
+  description:
+    'Giant Bomb is a wiki-style game database with solid coverage of Western releases. API key required, limited to 200 requests per hour.',
+  about:
+    'Wiki-style game database with solid coverage of Western releases, serving its images in several sizes. API key required, limited to 200 requests per hour.',
+  credentialsHint: 'Add your Giant Bomb API key (required)',
+  signup: {
+    prefix: 'Get a free API key at',
+    url: 'https://www.giantbomb.com/api/',
+    label: 'giantbomb.com/api',
+  },
+  credentials: [
+    {
+      key: 'apiKey',
+      label: 'Giant Bomb API Key',
+      required: true,
+      placeholder: 'Enter your Giant Bomb API key...',
+      envVar: 'GIANTBOMB_API_KEY',
+    },
+  ],
+  options: [
+    {
+      key: 'imageSize',
+      label: 'Image size',
+      type: 'select',
+      choices: [
+        { value: 'original_url', label: 'Original' },
+        { value: 'super_url', label: 'Large' },
+        { value: 'medium_url', label: 'Medium' },
+        { value: 'small_url', label: 'Small' },
+      ],
+      default: 'original_url',
+    },
+  ],
+  // 200 requests per hour, and clients sending bursts get blocked
+  rateLimit: { requestsPerSecond: 200 / 3600, maxConcurrent: 1 },
+  search,
+  resolveArtwork,
+}
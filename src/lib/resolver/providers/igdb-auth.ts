@@ -0,0 +1,118 @@
+import { responseError } from '@/lib/resolver/providers/errors'
+import { getBaseUrl } from '@/lib/resolver/providers/endpoints'
+
+export interface IGDBAuthResponse {
+  access_token: string
+  expires_in: number
+  token_type: string
+}
+
+interface CachedToken {
+  accessToken: string
+  expiresAt: number
+}
+
+const DEFAULT_AUTH_BASE_URL = 'https://id.twitch.tv/oauth2'
+
+// Refresh tokens a minute before Twitch expires them
+const EXPIRY_MARGIN_MS = 60_000
+
+async function requestIGDBAccessToken(
+  clientId: string,
+  clientSecret: string,
+): Promise<IGDBAuthResponse> {
+  const baseUrl = getBaseUrl('twitch-auth', DEFAULT_AUTH_BASE_URL)
+  const response = await fetch(`${baseUrl}/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      client_id: clientId,
+      client_secret: clientSecret,
+      grant_type: 'client_credentials',
+    }),
+  })
+
+  if (!response.ok) {
+    throw responseError('IGDB Auth', response)
+  }
+
+  return response.json()
+}
+
+// Tokens are cached per client ID and secret, since client IDs are not
+// secret and must not be enough to use a token someone else obtained. The
+// secret is only kept as part of a hash.
+async function credentialsKey(
+  clientId: string,
+  clientSecret: string,
+): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`${clientId}:${clientSecret}`),
+  )
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('')
+}
+
+// Caches Twitch app access tokens per client. Concurrent callers share a
+// single in-flight token request instead of each requesting their own.
+export function createTokenManager(
+  requestToken: (
+    clientId: string,
+    clientSecret: string,
+  ) => Promise<IGDBAuthResponse> = requestIGDBAccessToken,
+  now: () => number = Date.now,
+) {
+  const tokens = new Map<string, CachedToken>()
+  const pending = new Map<string, Promise<string>>()
+
+  async function getToken(
+    clientId: string,
+    clientSecret: string,
+  ): Promise<string> {
+    const key = await credentialsKey(clientId, clientSecret)
+    const cached = tokens.get(key)
+    if (cached && cached.expiresAt > now()) {
+      return cached.accessToken
+    }
+
+    const inFlight = pending.get(key)
+    if (inFlight) {
+      return inFlight
+    }
+
+    const refresh = requestToken(clientId, clientSecret)
+      .then((data) => {
+        tokens.set(key, {
+          accessToken: data.access_token,
+          expiresAt: now() + data.expires_in * 1000 - EXPIRY_MARGIN_MS,
+        })
+        return data.access_token
+      })
+      .finally(() => pending.delete(key))
+
+    pending.set(key, refresh)
+    return refresh
+  }
+
+  // Drop a token the API rejected. Passing the rejected token avoids
+  // discarding a fresh one that another caller already obtained.
+  async function invalidate(
+    clientId: string,
+    clientSecret: string,
+    accessToken?: string,
+  ) {
+    const key = await credentialsKey(clientId, clientSecret)
+    const cached = tokens.get(key)
+    if (cached && (!accessToken || cached.accessToken === accessToken)) {
+      tokens.delete(key)
+    }
+  }
+
+  return { getToken, invalidate }
+}
+
+export const igdbTokens = createTokenManager()
@@ -0,0 +1,139 @@
+import type {
+  CoverProvider,
+  ProviderCredentials,
+  GameQuery,
+  CoverCandidate,
+} from '@/lib/resolver/providers/types'
+import { getPlatformIds } from '@/lib/resolver/platforms'
+import { responseError } from '@/lib/resolver/providers/errors'
+import { igdbTokens } from '@/lib/resolver/providers/igdb-auth'
+import { getBaseUrl } from '@/lib/resolver/providers/endpoints'
+
+interface IGDBGame {
+  id: number
+  name: string
+  first_release_date?: number
+  cover?: {
+    id: number
+    url?: string
+    image_id: string
+  }
+  platforms?: Array<{
+    id: number
+    name: string
+  }>
+}
+
+const DEFAULT_BASE_URL = 'https://api.igdb.com/v4'
+const IMAGE_BASE_URL = 'https://images.igdb.com/igdb/image/upload'
+
+async function search(
+  query: GameQuery,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal,
+): Promise<CoverCandidate[]> {
+  const { clientId, clientSecret } = credentials
+
+  if (!clientId || !clientSecret) {
+    throw new Error('IGDB API requires both Client ID and Client Secret')
+  }
+
+  const ids = getPlatformIds('igdb', query.systemName)
+
+  // Build the query
+  let body = `search "${query.title}"; fields name,cover.*,platforms.name,first_release_date; limit 10;`
+
+  // Add platform filter if available
+  if (ids.length > 0) {
+    body += ` where platforms = (${ids.join(',')});`
+  }
+
+  const request = (accessToken: string) =>
+    fetch(`${getBaseUrl('igdb', DEFAULT_BASE_URL)}/games`, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Client-ID': clientId,
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body,
+      signal,
+    })
+
+  // The token request is shared between concurrent searches, so it is not
+  // tied to this search's signal
+  const accessToken = await igdbTokens.getToken(clientId, clientSecret)
+  let response = await request(accessToken)
+
+  // The cached token was revoked or expired early, retry once with a new one
+  if (response.status === 401) {
+    await igdbTokens.invalidate(clientId, clientSecret, accessToken)
+    response = await request(await igdbTokens.getToken(clientId, clientSecret))
+  }
+
+  if (!response.ok) {
+    throw responseError('IGDB API', response)
+  }
+
+  const games: IGDBGame[] = await response.json()
+
+  return (games || []).map((game) => ({
+    providerId: 'igdb',
+    id: game.id,
+    title: game.name,
+    platformIds: game.platforms?.map((platform) => platform.id) || [],
+    platformNames: game.platforms?.map((platform) => platform.name) || [],
+    releaseDate: game.first_release_date
+      ? new Date(game.first_release_date * 1000).toISOString().slice(0, 10)
+      : undefined,
+    // IGDB image URL format: https://images.igdb.com/igdb/image/upload/t_cover_big/{image_id}.jpg
+    imageUrl: game.cover?.image_id
+      ? `${IMAGE_BASE_URL}/t_cover_big/${game.cover.image_id}.jpg`
+      : undefined,
+    thumbnailUrl: game.cover?.image_id
+      ? `${IMAGE_BASE_URL}/t_cover_small/${game.cover.image_id}.jpg`
+      : undefined,
+  }))
+}
+
+async function resolveArtwork(candidate: CoverCandidate): Promise<string> {
+  // Covers are expanded in the search query
+  return candidate.imageUrl || ''
+}
+
+export const igdbProvider: CoverProvider = {
+  id: 'igdb',
+  name: 'IGDB',
+  description:
+    'IGDB (Internet Game Database) offers high-quality cover images and comprehensive game data. Requires Twitch Developer credentials.',
+  about:
+    'Professional game database with high-quality cover images and comprehensive data. Requires Twitch Developer credentials (Client ID and Client Secret).',
+  credentialsHint: 'Add your IGDB Client ID and Client Secret (required)',
+  signup: {
+    prefix: 'Get your credentials at',
+    url: 'https://dev.twitch.tv/console/apps',
+    label: 'dev.twitch.tv/console/apps',
+    suffix: '. Register an application and enable the IGDB API.',
+  },
+  credentials: [
+    {
+      key: 'clientId',
+      label: 'Client ID',
+      required: true,
+      placeholder: 'Enter your IGDB Client ID...',
+      envVar: 'IGDB_CLIENT_ID',
+      help: "Get your Client ID from the Twitch Developer Console. You'll need to register an application.",
+    },
+    {
+      key: 'clientSecret',
+      label: 'Client Secret',
+      required: true,
+      placeholder: 'Enter your IGDB Client Secret...',
+      envVar: 'IGDB_CLIENT_SECRET',
+    },
+  ],
+  // Documented limit: 4 requests per second, 8 open requests
+  rateLimit: { requestsPerSecond: 4, maxConcurrent: 8 },
+  search,
+  resolveArtwork,
+}
@@ -0,0 +1,46 @@
+import { registerProvider } from '@/lib/resolver/providers/registry'
+import { rawgProvider } from '@/lib/resolver/providers/rawg'
+import { theGamesDBProvider } from '@/lib/resolver/providers/thegamesdb'
+import { igdbProvider } from '@/lib/resolver/providers/igdb'
+import { steamGridDBProvider } from '@/lib/resolver/providers/steamgriddb'
+import { screenScraperProvider } from '@/lib/resolver/providers/screenscraper'
+import { libretroProvider } from '@/lib/resolver/providers/libretro'
+import { mobyGamesProvider } from '@/lib/resolver/providers/mobygames'
+import { giantBombProvider } from '@/lib/resolver/providers/giantbomb'
+
+// Built-in providers, in the order they are offered in the UI
+registerProvider(rawgProvider)
+registerProvider(theGamesDBProvider)
+registerProvider(igdbProvider)
+registerProvider(steamGridDBProvider)
+registerProvider(screenScraperProvider)
+registerProvider(libretroProvider)
+registerProvider(mobyGamesProvider)
+registerProvider(giantBombProvider)
+
+export {
+  registerProvider,
+  getProvider,
+  hasProvider,
+  listProviders,
+  getMissingCredentials,
+  describeMissingCredentials,
+} from '@/lib/resolver/providers/registry'
+export {
+  baseUrlEnvVar,
+  getBaseUrl,
+  resetBaseUrls,
+  setBaseUrls,
+} from '@/lib/resolver/providers/endpoints'
+export {
+  optionEnabled,
+  optionList,
+  readOptions,
+} from '@/lib/resolver/providers/options'
+export {
+  ProviderError,
+  isAbortError,
+  parseRetryAfter,
+  responseError,
+} from '@/lib/resolver/providers/errors'
+export type * from '@/lib/resolver/providers/types'
@@ -0,0 +1,157 @@
+import type {
+  CoverProvider,
+  ProviderCredentials,
+  GameQuery,
+  CoverCandidate,
+} from '@/lib/resolver/providers/types'
+import { findPlatform } from '@/lib/resolver/platforms'
+import { responseError } from '@/lib/resolver/providers/errors'
+import { getBaseUrl } from '@/lib/resolver/providers/endpoints'
+import { readOptions } from '@/lib/resolver/providers/options'
+
+const DEFAULT_BASE_URL = 'https://thumbnails.libretro.com'
+
+const ART_FOLDERS: Record<string, string> = {
+  boxart: 'Named_Boxarts',
+  snap: 'Named_Snaps',
+  title: 'Named_Titles',
+}
+
+// No-Intro region tags tried after the plain title, most wanted first
+const REGION_TAGS: Record<string, string[]> = {
+  usa: ['USA', 'USA, Europe', 'World', 'Japan, USA', 'Europe', 'Japan'],
+  europe: ['Europe', 'USA, Europe', 'World', 'USA', 'Japan', 'Japan, USA'],
+  japan: ['Japan', 'Japan, USA', 'World', 'USA', 'Europe', 'USA, Europe'],
+}
+
+// RetroArch replaces these characters in thumbnail file names
+export function thumbnailName(name: string): string {
+  return name.replace(/[&*/:`<>?\\|]/g, '_')
+}
+
+// File names to try, most likely first: the ROM's own No-Intro name, then
+// the title as is and with region tags, also in the "Title, The" form
+// No-Intro uses for leading articles
+function nameVariants(query: GameQuery, regions: string[]): string[] {
+  const names: string[] = []
+  if (query.romName) {
+    names.push(query.romName.replace(/\.[^.]+$/, ''))
+  }
+
+  const titles = [query.title]
+  const article = query.title.match(/^(the|a|an) (.+)$/i)
+  if (article) {
+    titles.push(`${article[2]}, ${article[1]}`)
+  }
+  for (const title of titles) {
+    names.push(title, ...regions.map((region) => `${title} (${region})`))
+  }
+
+  return Array.from(new Set(names))
+}
+
+async function exists(url: string, signal?: AbortSignal): Promise<boolean> {
+  const response = await fetch(url, { method: 'HEAD', signal })
+  if (response.status === 404) {
+    return false
+  }
+  if (!response.ok) {
+    throw responseError('Libretro thumbnails', response)
+  }
+  return true
+}
+
+async function search(
+  query: GameQuery,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal,
+): Promise<CoverCandidate[]> {
+  const system = findPlatform(query.systemName)?.libretro
+  // Thumbnails are only organized by system
+  if (!system) {
+    return []
+  }
+
+  const options = readOptions(libretroProvider, credentials)
+  const folder = ART_FOLDERS[options.artType] || ART_FOLDERS.boxart
+  const regions = REGION_TAGS[options.region] || REGION_TAGS.usa
+  const baseUrl = getBaseUrl('libretro', DEFAULT_BASE_URL)
+
+  // There is no search, so each likely file name is checked in turn
+  const names = nameVariants(query, regions)
+  for (const [i, name] of names.entries()) {
+    const url = [system, folder, `${thumbnailName(name)}.png`]
+      .map(encodeURIComponent)
+      .join('/')
+    const imageUrl = `${baseUrl}/${url}`
+    if (await exists(imageUrl, signal)) {
+      return [
+        {
+          providerId: 'libretro',
+          // Thumbnails have no IDs; the candidate is numbered by the name
+          // that matched
+          id: i + 1,
+          title: query.title,
+          platformIds: [],
+          platformNames: [system],
+          imageUrl,
+          thumbnailUrl: imageUrl,
+        },
+      ]
+    }
+  }
+  return []
+}
+
+async function resolveArtwork(candidate: CoverCandidate): Promise<string> {
+  // The search already checked that the thumbnail exists
+  return candidate.imageUrl || ''
+}
+
+export const libretroProvider: CoverProvider = {
+  id: 'libretro',
+  name: 'Libretro',
+  description:
+    "Libretro's thumbnail repository has the box art, screenshots and title screens RetroArch shows for retro systems. No API key needed, but titles need to match the No-Intro names.",
+  about:
+    'Box art, screenshots and title screens used by RetroArch, stored by system and No-Intro file name. No API key needed. Works best with ROM file names or titles that follow No-Intro naming.',
+  credentialsHint: 'No credentials needed',
+  signup: {
+    prefix: 'Browse the thumbnails at',
+    url: 'https://thumbnails.libretro.com',
+    label: 'thumbnails.libretro.com',
+  },
+  credentials: [],
+  options: [
+    {
+      key: 'artType',
+      label: 'Artwork',
+      type: 'select',
+      choices: [
+        { value: 'boxart', label: 'Box art' },
+        { value: 'snap', label: 'Screenshots' },
+        { value: 'title', label: 'Title screens' },
+      ],
+      default: 'boxart',
+    },
+    {
+      key: 'region',
+      label: 'Preferred region',
+      type: 'select',
+      choices: [
+        { value: 'usa', label: 'USA' },
+        { value: 'europe', label: 'Europe' },
+        { value: 'japan', label: 'Japan' },
+      ],
+      default: 'usa',
+      help: 'Tried first when the title has no region tag.',
+    },
+  ],
+  matchesRomFiles: true,
+  // Limits lookups rather than requests: a lookup checks up to 15 file
+  // names one after another, so running one at a time keeps a single
+  // request in flight
+  rateLimit: { requestsPerSecond: 2, maxConcurrent: 1 },
+  search,
+  resolveArtwork,
+}
@@ -0,0 +1,240 @@
+import type {
+  CoverProvider,
+  ProviderCredentials,
+  GameQuery,
+  CoverCandidate,
+} from '@/lib/resolver/providers/types'
+import { getPlatformIds } from '@/lib/resolver/platforms'
+import { responseError } from '@/lib/resolver/providers/errors'
+import { getBaseUrl } from '@/lib/resolver/providers/endpoints'
+import { readOptions } from '@/lib/resolver/providers/options'
+
+interface MobyGamesPlatform {
+  platform_id: number
+  platform_name: string
+  first_release_date?: string
+}
+
+interface MobyGamesGame {
+  game_id: number
+  title: string
+  platforms?: MobyGamesPlatform[]
+  sample_cover?: {
+    image: string
+    thumbnail_image: string
+  }
+}
+
+interface MobyGamesCover {
+  // "Front Cover", "Back Cover", "Media", "Manual", ...
+  scan_of: string
+  image: string
+  thumbnail_image: string
+  width: number
+  height: number
+}
+
+// One release's scans, e.g. the North American box
+interface MobyGamesCoverGroup {
+  countries: string[]
+  comments?: string
+  covers: MobyGamesCover[]
+}
+
+interface MobyGamesGamesResponse {
+  games: MobyGamesGame[]
+}
+
+interface MobyGamesCoversResponse {
+  cover_groups: MobyGamesCoverGroup[]
+}
+
+const DEFAULT_BASE_URL = 'https://api.mobygames.com/v1'
+
+// Countries whose releases are preferred, in order
+const COUNTRY_ORDERS: Record<string, string[]> = {
+  us: ['United States', 'Canada', 'Worldwide', 'United Kingdom', 'Australia'],
+  europe: [
+    'United Kingdom',
+    'Germany',
+    'France',
+    'Worldwide',
+    'Australia',
+    'United States',
+  ],
+  japan: ['Japan', 'Worldwide', 'United States', 'United Kingdom'],
+}
+
+function requireKey(credentials: ProviderCredentials): string {
+  if (!credentials.apiKey) {
+    throw new Error('MobyGames API requires an API key')
+  }
+  return credentials.apiKey
+}
+
+async function get<T>(
+  path: string,
+  params: URLSearchParams,
+  signal?: AbortSignal,
+): Promise<T | null> {
+  const baseUrl = getBaseUrl('mobygames', DEFAULT_BASE_URL)
+  const response = await fetch(`${baseUrl}${path}?${params}`, { signal })
+
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw responseError('MobyGames API', response)
+  }
+
+  return response.json()
+}
+
+async function search(
+  query: GameQuery,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal,
+): Promise<CoverCandidate[]> {
+  const apiKey = requireKey(credentials)
+  const ids = getPlatformIds('mobygames', query.systemName)
+
+  const params = new URLSearchParams({
+    api_key: apiKey,
+    title: query.title,
+    format: 'normal',
+    limit: '10',
+  })
+  for (const id of ids) {
+    params.append('platform', String(id))
+  }
+
+  const data = await get<MobyGamesGamesResponse>('/games', params, signal)
+
+  return (data?.games || []).map((game) => {
+    // Covers are looked up for the first platform, so the searched one
+    // goes first
+    const platforms = [...(game.platforms || [])].sort(
+      (a, b) =>
+        Number(ids.includes(b.platform_id)) -
+        Number(ids.includes(a.platform_id)),
+    )
+    return {
+      providerId: 'mobygames',
+      id: game.game_id,
+      title: game.title,
+      platformIds: platforms.map((platform) => platform.platform_id),
+      platformNames: platforms.map((platform) => platform.platform_name),
+      releaseDate: platforms[0]?.first_release_date,
+      // The sample cover can be of any platform, so it is only a preview
+      thumbnailUrl: game.sample_cover?.thumbnail_image,
+    }
+  })
+}
+
+// The scan from the group of the first preferred country that has one,
+// or from any group when none of them does
+function pickCover(
+  groups: MobyGamesCoverGroup[],
+  scanOf: string,
+  countries: string[],
+): MobyGamesCover | undefined {
+  const scanIn = (group: MobyGamesCoverGroup) =>
+    group.covers.find((cover) => cover.scan_of === scanOf)
+
+  for (const country of countries) {
+    for (const group of groups) {
+      const cover = group.countries.includes(country) && scanIn(group)
+      if (cover) {
+        return cover
+      }
+    }
+  }
+  for (const group of groups) {
+    const cover = scanIn(group)
+    if (cover) {
+      return cover
+    }
+  }
+  return undefined
+}
+
+async function resolveArtwork(
+  candidate: CoverCandidate,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal,
+): Promise<string> {
+  const apiKey = requireKey(credentials)
+  const [platformId] = candidate.platformIds
+  if (!platformId) {
+    return ''
+  }
+
+  const options = readOptions(mobyGamesProvider, credentials)
+  const data = await get<MobyGamesCoversResponse>(
+    `/games/${candidate.id}/platforms/${platformId}/covers`,
+    new URLSearchParams({ api_key: apiKey }),
+    signal,
+  )
+
+  const cover = pickCover(
+    data?.cover_groups || [],
+    options.scanOf,
+    COUNTRY_ORDERS[options.countries] || COUNTRY_ORDERS.us,
+  )
+  return cover?.image || ''
+}
+
+export const mobyGamesProvider: CoverProvider = {
+  id: 'mobygames',
+  name: 'MobyGames',
+  description:
+    'MobyGames has scanned covers, media and manuals for each platform and regional release. API key required, limited to 360 requests per hour.',
+  about:
+    'Archive of scanned covers, media and manuals grouped by platform and country of release. Covers are taken from the release of the searched platform in the preferred countries.',
+  credentialsHint: 'Add your MobyGames API key (required)',
+  signup: {
+    prefix: 'Get an API key in your',
+    url: 'https://www.mobygames.com/info/api/',
+    label: 'MobyGames account',
+  },
+  credentials: [
+    {
+      key: 'apiKey',
+      label: 'MobyGames API Key',
+      required: true,
+      placeholder: 'Enter your MobyGames API key...',
+      envVar: 'MOBYGAMES_API_KEY',
+    },
+  ],
+  options: [
+    {
+      key: 'scanOf',
+      label: 'Scan',
+      type: 'select',
+      choices: [
+        { value: 'Front Cover', label: 'Front cover' },
+        { value: 'Back Cover', label: 'Back cover' },
+        { value: 'Media', label: 'Media' },
+        { value: 'Manual', label: 'Manual' },
+      ],
+      default: 'Front Cover',
+    },
+    {
+      key: 'countries',
+      label: 'Preferred countries',
+      type: 'select',
+      choices: [
+        { value: 'us', label: 'United States first' },
+        { value: 'europe', label: 'Europe first' },
+        { value: 'japan', label: 'Japan first' },
+      ],
+      default: 'us',
+      help: 'Releases of the first country with the scan are used, any release otherwise.',
+    },
+  ],
+  // The free API allows one request per second and 360 per hour. A burst
+  // would send several at once, so the hourly rate alone covers both
+  rateLimit: { requestsPerSecond: 360 / 3600, maxConcurrent: 1 },
+  search,
+  resolveArtwork,
+}
@@ -0,0 +1,29 @@
+import type {
+  CoverProvider,
+  ProviderCredentials,
+} from '@/lib/resolver/providers/types'
+
+// Every option of the provider, with the default where no value was given
+export function readOptions(
+  provider: CoverProvider,
+  values: ProviderCredentials,
+): Record<string, string> {
+  return Object.fromEntries(
+    (provider.options || []).map((option) => [
+      option.key,
+      values[option.key] ?? option.default,
+    ]),
+  )
+}
+
+// "alternate, material" -> ["alternate", "material"]
+export function optionList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+export function optionEnabled(value: string | undefined): boolean {
+  return value === 'true'
+}
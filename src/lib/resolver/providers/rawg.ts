@@ -0,0 +1,102 @@
+import type {
+  CoverProvider,
+  ProviderCredentials,
+  GameQuery,
+  CoverCandidate,
+} from '@/lib/resolver/providers/types'
+import { getPlatformIds } from '@/lib/resolver/platforms'
+import { responseError } from '@/lib/resolver/providers/errors'
+import { getBaseUrl } from '@/lib/resolver/providers/endpoints'
+
+interface RAWGGame {
+  id: number
+  name: string
+  background_image: string
+  released?: string
+  platforms: Array<{
+    platform: {
+      id: number
+      name: string
+    }
+  }>
+}
+
+interface RAWGResponse {
+  results: RAWGGame[]
+}
+
+const DEFAULT_BASE_URL = 'https://api.rawg.io/api'
+
+async function search(
+  query: GameQuery,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal,
+): Promise<CoverCandidate[]> {
+  const ids = getPlatformIds('rawg', query.systemName)
+
+  const params = new URLSearchParams({
+    search: query.title,
+    page_size: '10',
+  })
+
+  if (credentials.apiKey) {
+    params.append('key', credentials.apiKey)
+  }
+
+  if (ids.length > 0) {
+    params.append('platforms', ids.join(','))
+  }
+
+  const baseUrl = getBaseUrl('rawg', DEFAULT_BASE_URL)
+  const response = await fetch(`${baseUrl}/games?${params}`, { signal })
+
+  if (!response.ok) {
+    throw responseError('RAWG API', response)
+  }
+
+  const data: RAWGResponse = await response.json()
+
+  return (data.results || []).map((game) => ({
+    providerId: 'rawg',
+    id: game.id,
+    title: game.name,
+    platformIds: game.platforms?.map((p) => p.platform.id) || [],
+    platformNames: game.platforms?.map((p) => p.platform.name) || [],
+    releaseDate: game.released,
+    imageUrl: game.background_image || undefined,
+    thumbnailUrl: game.background_image || undefined,
+  }))
+}
+
+async function resolveArtwork(candidate: CoverCandidate): Promise<string> {
+  // The search response already carries the background image
+  return candidate.imageUrl || ''
+}
+
+export const rawgProvider: CoverProvider = {
+  id: 'rawg',
+  name: 'RAWG',
+  description:
+    'RAWG is the largest video game database with 500,000+ games. Works without an API key (limited to 1 request per second) or with a free API key (20,000 requests per month).',
+  about:
+    'Largest video game database with 500,000+ games. Works without an API key (limited to 1 request per second) or with a free API key (20,000 requests per month).',
+  credentialsHint: 'Optionally add your RAWG API key for better rate limits',
+  signup: {
+    prefix: 'Get a free API key at',
+    url: 'https://rawg.io/apidocs',
+    label: 'rawg.io/apidocs',
+  },
+  credentials: [
+    {
+      key: 'apiKey',
+      label: 'RAWG API Key',
+      required: false,
+      placeholder: 'Enter your RAWG API key...',
+      envVar: 'RAWG_API_KEY',
+    },
+  ],
+  // One request per second without a key; keys only add a monthly quota
+  rateLimit: { requestsPerSecond: 1, maxConcurrent: 1 },
+  search,
+  resolveArtwork,
+}
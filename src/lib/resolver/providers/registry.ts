@@ -0,0 +1,58 @@
+import type {
+  CoverProvider,
+  ProviderCredentials,
+  ProviderId,
+} from '@/lib/resolver/providers/types'
+
+const providers = new Map<ProviderId, CoverProvider>()
+
+export function registerProvider(provider: CoverProvider) {
+  if (providers.has(provider.id)) {
+    throw new Error(`Provider "${provider.id}" is already registered`)
+  }
+  providers.set(provider.id, provider)
+}
+
+export function getProvider(id: ProviderId): CoverProvider {
+  const provider = providers.get(id)
+  if (!provider) {
+    throw new Error(`Unknown provider "${id}"`)
+  }
+  return provider
+}
+
+export function hasProvider(id: ProviderId): boolean {
+  return providers.has(id)
+}
+
+export function listProviders(): CoverProvider[] {
+  return Array.from(providers.values())
+}
+
+// `configured` lists credential keys the server fills in from its environment
+export function getMissingCredentials(
+  provider: CoverProvider,
+  credentials: ProviderCredentials,
+  configured: string[] = [],
+) {
+  return provider.credentials.filter(
+    (field) =>
+      field.required &&
+      !credentials[field.key] &&
+      !configured.includes(field.key),
+  )
+}
+
+// Human readable error for missing required credentials, empty when complete
+export function describeMissingCredentials(
+  provider: CoverProvider,
+  credentials: ProviderCredentials,
+  configured: string[] = [],
+): string {
+  const missing = getMissingCredentials(provider, credentials, configured)
+  if (missing.length === 0) {
+    return ''
+  }
+  const labels = missing.map((field) => field.label).join(' and ')
+  return `${provider.name} API requires ${labels}`
+}
@@ -0,0 +1,128 @@
+import type {
+  CoverCandidate,
+  CoverProvider,
+  GameQuery,
+  ProviderCredentials,
+  ProviderId,
+  RomFile,
+} from '@/lib/resolver/providers/types'
+import { ProviderError, parseRetryAfter } from '@/lib/resolver/providers/errors'
+import type { ScoredCandidate } from '@/lib/resolver/matching'
+import type { CoverResolution } from '@/lib/resolver/resolve'
+
+export interface SearchRequestBody {
+  query: GameQuery
+  credentials?: ProviderCredentials
+}
+
+export interface SearchResponseBody {
+  candidates: CoverCandidate[]
+}
+
+export interface ArtworkRequestBody {
+  candidate: CoverCandidate
+  credentials?: ProviderCredentials
+}
+
+export interface ArtworkResponseBody {
+  imageUrl: string
+}
+
+// The ROM file fields identify the game with providers that support it
+export interface ResolveRequestBody extends RomFile {
+  // Providers to try, in order
+  providerIds: ProviderId[]
+  title: string
+  systemName: string
+  year?: number
+  credentials?: Record<ProviderId, ProviderCredentials>
+  minScore?: number
+}
+
+export interface ResolveResponseBody {
+  imageUrl: string
+  providerId?: ProviderId
+  score?: number
+  resolution: CoverResolution
+  candidates: ScoredCandidate[]
+}
+
+export interface ErrorResponseBody {
+  error: string
+}
+
+export interface ProviderStatus {
+  id: ProviderId
+  // Credential keys configured through server environment variables
+  configured: string[]
+}
+
+export interface ProvidersResponseBody {
+  providers: ProviderStatus[]
+}
+
+const API_BASE = '/api/providers'
+
+async function post<T>(
+  provider: CoverProvider,
+  path: string,
+  body: unknown,
+  signal?: AbortSignal,
+): Promise<T> {
+  const response = await fetch(`${API_BASE}/${provider.id}/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  })
+
+  if (!response.ok) {
+    const data: Partial<ErrorResponseBody> = await response
+      .json()
+      .catch(() => ({}))
+    throw new ProviderError(
+      data.error || `${provider.name} proxy error: ${response.status}`,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After')),
+    )
+  }
+
+  return response.json()
+}
+
+// Wrap a provider so its requests go through our own API routes, keeping
+// credentials and cross-origin calls on the server
+export function createRemoteProvider(provider: CoverProvider): CoverProvider {
+  return {
+    ...provider,
+    async search(query, credentials, signal) {
+      const body: SearchRequestBody = { query, credentials }
+      const data = await post<SearchResponseBody>(
+        provider,
+        'search',
+        body,
+        signal,
+      )
+      return data.candidates
+    },
+    async resolveArtwork(candidate, credentials, signal) {
+      const body: ArtworkRequestBody = { candidate, credentials }
+      const data = await post<ArtworkResponseBody>(
+        provider,
+        'artwork',
+        body,
+        signal,
+      )
+      return data.imageUrl
+    },
+  }
+}
+
+export async function fetchProviderStatus(): Promise<ProviderStatus[]> {
+  const response = await fetch(API_BASE)
+  if (!response.ok) {
+    throw new Error(`Provider status error: ${response.status}`)
+  }
+  const data: ProvidersResponseBody = await response.json()
+  return data.providers
+}
@@ -0,0 +1,126 @@
+import { ProviderError } from '@/lib/resolver/providers/errors'
+
+// Account details ScreenScraper sends with every response made with user
+// credentials. Numbers arrive as strings.
+export interface ScreenScraperUser {
+  id?: string
+  maxthreads?: string
+  requeststoday?: string
+  maxrequestsperday?: string
+  requestskotoday?: string
+  maxrequestskoperday?: string
+}
+
+interface AccountState {
+  maxThreads: number
+  active: number
+  waiting: (() => void)[]
+  // UTC day on which the daily quota ran out
+  exhaustedOn?: string
+}
+
+// Status ScreenScraper answers with once the daily quota is used up
+export const QUOTA_EXCEEDED_STATUS = 430
+const QUOTA_STATUSES = [QUOTA_EXCEEDED_STATUS, 431]
+
+// Keeps each ScreenScraper account within the thread count and daily quota
+// it was granted. Until the first response reports them, an account gets a
+// single thread, like anonymous users.
+export function createAccountLimits(now: () => number = Date.now) {
+  const accounts = new Map<string, AccountState>()
+
+  const today = () => new Date(now()).toISOString().slice(0, 10)
+
+  const stateOf = (account: string) => {
+    let state = accounts.get(account)
+    if (!state) {
+      state = { maxThreads: 1, active: 0, waiting: [] }
+      accounts.set(account, state)
+    }
+    return state
+  }
+
+  const drain = (state: AccountState) => {
+    while (state.waiting.length > 0 && state.active < state.maxThreads) {
+      state.active++
+      state.waiting.shift()?.()
+    }
+  }
+
+  function update(account: string, user?: ScreenScraperUser) {
+    if (!user) {
+      return
+    }
+    const state = stateOf(account)
+    const maxThreads = Number(user.maxthreads)
+    if (maxThreads > 0) {
+      state.maxThreads = maxThreads
+    }
+    const used = Number(user.requeststoday)
+    const failed = Number(user.requestskotoday)
+    if (
+      used >= Number(user.maxrequestsperday) ||
+      failed >= Number(user.maxrequestskoperday)
+    ) {
+      state.exhaustedOn = today()
+    }
+    drain(state)
+  }
+
+  // Run a request once the account has a free thread. Fails right away when
+  // the account has no requests left today.
+  async function run<T>(
+    account: string,
+    request: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const state = stateOf(account)
+    if (state.exhaustedOn === today()) {
+      throw new ProviderError(
+        'ScreenScraper daily quota reached',
+        QUOTA_EXCEEDED_STATUS,
+      )
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+      const onAbort = () => {
+        state.waiting.splice(state.waiting.indexOf(start), 1)
+        reject(signal?.reason)
+      }
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      state.waiting.push(start)
+      drain(state)
+    })
+
+    try {
+      return await request()
+    } catch (error) {
+      if (
+        error instanceof ProviderError &&
+        QUOTA_STATUSES.includes(error.status)
+      ) {
+        state.exhaustedOn = today()
+      }
+      throw error
+    } finally {
+      state.active--
+      drain(state)
+    }
+  }
+
+  function reset() {
+    accounts.clear()
+  }
+
+  return { run, update, reset }
+}
+
+export const screenScraperAccounts = createAccountLimits()
@@ -0,0 +1,368 @@
+import type {
+  CoverProvider,
+  ProviderCredentials,
+  GameQuery,
+  CoverCandidate,
+} from '@/lib/resolver/providers/types'
+import { getPlatformIds } from '@/lib/resolver/platforms'
+import { responseError } from '@/lib/resolver/providers/errors'
+import { getBaseUrl } from '@/lib/resolver/providers/endpoints'
+import {
+  optionEnabled,
+  optionList,
+  readOptions,
+} from '@/lib/resolver/providers/options'
+import {
+  screenScraperAccounts,
+  type ScreenScraperUser,
+} from '@/lib/resolver/providers/screenscraper-account'
+
+interface ScreenScraperText {
+  region?: string
+  text: string
+}
+
+interface ScreenScraperMedia {
+  type: string
+  region?: string
+  url: string
+  format?: string
+}
+
+interface ScreenScraperGame {
+  id: string
+  noms?: ScreenScraperText[]
+  systeme?: { id: string; text: string }
+  // "1991-06-23", or just the year
+  dates?: ScreenScraperText[]
+  medias?: ScreenScraperMedia[]
+}
+
+interface ScreenScraperResponse {
+  response?: {
+    jeu?: ScreenScraperGame
+    jeux?: ScreenScraperGame[]
+    ssuser?: ScreenScraperUser
+  }
+}
+
+const DEFAULT_BASE_URL = 'https://api.screenscraper.fr/api2'
+
+const SOFTWARE_NAME = 'game-cover-resolver'
+
+// Front box art
+const MEDIA_TYPE = 'box-2D'
+
+function requireCredentials(credentials: ProviderCredentials) {
+  if (!credentials.devId || !credentials.devPassword) {
+    throw new Error(
+      'ScreenScraper API requires both Developer ID and Developer Password',
+    )
+  }
+  return {
+    devid: credentials.devId,
+    devpassword: credentials.devPassword,
+    softname: SOFTWARE_NAME,
+    output: 'json',
+    ...(credentials.userId && credentials.userPassword
+      ? { ssid: credentials.userId, sspassword: credentials.userPassword }
+      : {}),
+  }
+}
+
+async function get(
+  endpoint: string,
+  params: Record<string, string>,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal,
+): Promise<ScreenScraperResponse['response'] | null> {
+  const auth = requireCredentials(credentials)
+  // Limits apply to the user when one is given, to the developer otherwise
+  const account = auth.ssid || auth.devid
+  const baseUrl = getBaseUrl('screenscraper', DEFAULT_BASE_URL)
+  const query = new URLSearchParams({ ...auth, ...params })
+
+  return screenScraperAccounts.run(
+    account,
+    async () => {
+      const response = await fetch(`${baseUrl}/${endpoint}?${query}`, {
+        signal,
+      })
+
+      // Unknown games and ROMs answer 404 with a plain text message
+      if (response.status === 404) {
+        return null
+      }
+      if (!response.ok) {
+        throw responseError('ScreenScraper API', response)
+      }
+
+      const data: ScreenScraperResponse = await response.json()
+      screenScraperAccounts.update(account, data.response?.ssuser)
+      return data.response ?? null
+    },
+    signal,
+  )
+}
+
+// The item of the first region in priority order, or the first item when
+// none of them has one
+function pickRegion<T extends { region?: string }>(
+  items: T[],
+  regions: string[],
+): T | undefined {
+  for (const region of regions) {
+    const item = items.find((item) => item.region === region)
+    if (item) {
+      return item
+    }
+  }
+  return items[0]
+}
+
+const CREDENTIAL_PARAMS = ['devid', 'devpassword', 'ssid', 'sspassword']
+
+// Media URLs carry the credentials of the request. They are left out so
+// results and exports don't leak them, unless the developer credentials
+// were explicitly allowed in, which downloading the file needs.
+function publicMediaUrl(
+  url: string,
+  credentials: ProviderCredentials,
+  withCredentials: boolean,
+): string {
+  const parsed = new URL(url)
+  for (const param of CREDENTIAL_PARAMS) {
+    parsed.searchParams.delete(param)
+  }
+  if (withCredentials && credentials.devId && credentials.devPassword) {
+    parsed.searchParams.set('devid', credentials.devId)
+    parsed.searchParams.set('devpassword', credentials.devPassword)
+  }
+  return parsed.toString()
+}
+
+// What identifies a media file: its system, game and kind
+const MEDIA_PARAMS = ['systemeid', 'jeuid', 'media']
+
+// The parameters identifying a media file, or undefined when one is missing
+export function readMediaParams(
+  source: URLSearchParams,
+): URLSearchParams | undefined {
+  const params = new URLSearchParams()
+  for (const name of MEDIA_PARAMS) {
+    const value = source.get(name)
+    if (!value) {
+      return undefined
+    }
+    params.set(name, value)
+  }
+  return params
+}
+
+// The media file parameters of a ScreenScraper media URL, or undefined for
+// any other URL
+export function mediaParams(url: string): URLSearchParams | undefined {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return undefined
+  }
+  return parsed.pathname.endsWith('/mediaJeu.php')
+    ? readMediaParams(parsed.searchParams)
+    : undefined
+}
+
+// Download a media file, which ScreenScraper only serves to requests with
+// developer credentials
+export async function fetchMedia(
+  params: URLSearchParams,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const { devid, devpassword, softname } = requireCredentials(credentials)
+  const query = new URLSearchParams({ devid, devpassword, softname })
+  for (const name of MEDIA_PARAMS) {
+    query.set(name, params.get(name) || '')
+  }
+
+  const baseUrl = getBaseUrl('screenscraper', DEFAULT_BASE_URL)
+  const response = await fetch(`${baseUrl}/mediaJeu.php?${query}`, {
+    signal,
+  })
+  if (!response.ok) {
+    throw responseError('ScreenScraper media', response)
+  }
+  return response
+}
+
+function toCandidate(
+  game: ScreenScraperGame,
+  credentials: ProviderCredentials,
+  identified: boolean,
+): CoverCandidate {
+  const options = readOptions(screenScraperProvider, credentials)
+  const regions = optionList(options.regions)
+  const media = pickRegion(
+    (game.medias || []).filter((media) => media.type === MEDIA_TYPE),
+    regions,
+  )
+  const imageUrl = media
+    ? publicMediaUrl(
+        media.url,
+        credentials,
+        optionEnabled(options.mediaCredentials),
+      )
+    : undefined
+
+  return {
+    providerId: 'screenscraper',
+    id: Number(game.id),
+    title: pickRegion(game.noms || [], regions)?.text || '',
+    platformIds: game.systeme ? [Number(game.systeme.id)] : [],
+    platformNames: game.systeme ? [game.systeme.text] : [],
+    releaseDate: pickRegion(game.dates || [], regions)?.text,
+    identified: identified || undefined,
+    imageUrl,
+    thumbnailUrl: imageUrl,
+  }
+}
+
+// Look the ROM up by its hashes, name and size
+async function identify(
+  query: GameQuery,
+  systemId: number | undefined,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal,
+): Promise<ScreenScraperGame | undefined> {
+  const params: Record<string, string> = { romtype: 'rom' }
+  if (systemId) {
+    params.systemeid = String(systemId)
+  }
+  if (query.crc) {
+    params.crc = query.crc
+  }
+  if (query.md5) {
+    params.md5 = query.md5
+  }
+  if (query.sha1) {
+    params.sha1 = query.sha1
+  }
+  if (query.romName) {
+    params.romnom = query.romName
+  }
+  if (query.size) {
+    params.romtaille = String(query.size)
+  }
+
+  const data = await get('jeuInfos.php', params, credentials, signal)
+  return data?.jeu?.id ? data.jeu : undefined
+}
+
+async function search(
+  query: GameQuery,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal,
+): Promise<CoverCandidate[]> {
+  requireCredentials(credentials)
+  const [systemId] = getPlatformIds('screenscraper', query.systemName)
+
+  if (query.crc || query.md5 || query.sha1 || query.romName) {
+    const game = await identify(query, systemId, credentials, signal)
+    if (game) {
+      return [toCandidate(game, credentials, true)]
+    }
+  }
+
+  const params: Record<string, string> = { recherche: query.title }
+  if (systemId) {
+    params.systemeid = String(systemId)
+  }
+  const data = await get('jeuRecherche.php', params, credentials, signal)
+
+  // A search without results lists a single empty game
+  return (data?.jeux || [])
+    .filter((game) => game.id)
+    .map((game) => toCandidate(game, credentials, false))
+}
+
+async function resolveArtwork(candidate: CoverCandidate): Promise<string> {
+  // The search response already carries the media
+  return candidate.imageUrl || ''
+}
+
+export const screenScraperProvider: CoverProvider = {
+  id: 'screenscraper',
+  name: 'ScreenScraper',
+  description:
+    'ScreenScraper has the most complete box art for retro systems, and can identify games by the CRC, MD5 or SHA1 of their ROM. Developer credentials required, a user account raises the thread count and daily quota.',
+  about:
+    'Community database focused on retro games, with regional box art. Identifies games by the CRC, MD5 or SHA1, file name and size of their ROM when the input has them, and searches by title otherwise.',
+  credentialsHint:
+    'Add your ScreenScraper developer credentials (required) and user account (optional)',
+  signup: {
+    prefix: 'Create an account at',
+    url: 'https://www.screenscraper.fr',
+    label: 'screenscraper.fr',
+    suffix: ' and request developer credentials on its forum.',
+  },
+  credentials: [
+    {
+      key: 'devId',
+      label: 'ScreenScraper Developer ID',
+      required: true,
+      placeholder: 'Enter your developer ID...',
+      envVar: 'SCREENSCRAPER_DEV_ID',
+    },
+    {
+      key: 'devPassword',
+      label: 'ScreenScraper Developer Password',
+      required: true,
+      placeholder: 'Enter your developer password...',
+      envVar: 'SCREENSCRAPER_DEV_PASSWORD',
+    },
+    {
+      key: 'userId',
+      label: 'ScreenScraper Username',
+      required: false,
+      placeholder: 'Enter your username...',
+      envVar: 'SCREENSCRAPER_USER',
+      help: 'Requests count against your own thread count and daily quota instead of the anonymous ones.',
+    },
+    {
+      key: 'userPassword',
+      label: 'ScreenScraper Password',
+      required: false,
+      placeholder: 'Enter your password...',
+      envVar: 'SCREENSCRAPER_PASSWORD',
+    },
+  ],
+  options: [
+    {
+      key: 'regions',
+      label: 'Region priority',
+      type: 'select',
+      choices: [
+        { value: 'us,wor,eu,ss,jp', label: 'USA first' },
+        { value: 'eu,wor,us,ss,jp', label: 'Europe first' },
+        { value: 'jp,wor,us,eu,ss', label: 'Japan first' },
+        { value: 'wor,us,eu,jp,ss', label: 'World first' },
+      ],
+      default: 'us,wor,eu,ss,jp',
+      help: 'Box art and titles of the first region that has them are used.',
+    },
+    {
+      key: 'mediaCredentials',
+      label: 'Developer credentials in image URLs',
+      type: 'toggle',
+      default: 'false',
+      help: 'ScreenScraper only serves images to requests with developer credentials. Turn on to get image URLs that download anywhere, knowing that anyone who sees the results or an export can read the developer password. The web app always serves the images itself instead.',
+    },
+  ],
+  matchesRomFiles: true,
+  // Thread counts depend on the account and are applied per account as
+  // ScreenScraper reports them; this only caps the request rate
+  rateLimit: { requestsPerSecond: 2, maxConcurrent: 8 },
+  search,
+  resolveArtwork,
+}
@@ -0,0 +1,264 @@
+import type {
+  CoverProvider,
+  ProviderCredentials,
+  GameQuery,
+  CoverCandidate,
+} from '@/lib/resolver/providers/types'
+import { responseError } from '@/lib/resolver/providers/errors'
+import { getBaseUrl } from '@/lib/resolver/providers/endpoints'
+import {
+  optionEnabled,
+  optionList,
+  readOptions,
+} from '@/lib/resolver/providers/options'
+
+interface SteamGridDBGame {
+  id: number
+  name: string
+  // Unix timestamp
+  release_date?: number
+  types: string[]
+  verified: boolean
+}
+
+interface SteamGridDBImage {
+  id: number
+  score: number
+  style: string
+  width: number
+  height: number
+  nsfw: boolean
+  humor: boolean
+  mime: string
+  url: string
+  thumb: string
+}
+
+interface SteamGridDBResponse<T> {
+  success: boolean
+  data: T
+  errors?: string[]
+}
+
+type ArtType = 'grid' | 'hero' | 'logo' | 'icon'
+
+// Endpoint and accepted filters of each kind of art. Styles and dimensions
+// the endpoint doesn't know are left out of the request.
+const ART_TYPES: Record<
+  ArtType,
+  { path: string; styles: string[]; dimensions: string[] }
+> = {
+  grid: {
+    path: 'grids',
+    styles: ['alternate', 'blurred', 'white_logo', 'material', 'no_logo'],
+    dimensions: [
+      '600x900',
+      '342x482',
+      '660x930',
+      '460x215',
+      '920x430',
+      '512x512',
+      '1024x1024',
+    ],
+  },
+  hero: {
+    path: 'heroes',
+    styles: ['alternate', 'blurred', 'material'],
+    dimensions: ['1920x620', '3840x1240', '1600x650'],
+  },
+  logo: {
+    path: 'logos',
+    styles: ['official', 'white', 'black', 'custom'],
+    dimensions: [],
+  },
+  icon: {
+    path: 'icons',
+    styles: ['official', 'custom'],
+    dimensions: ['32', '64', '128', '256', '512', '1024'],
+  },
+}
+
+const DEFAULT_BASE_URL = 'https://www.steamgriddb.com/api/v2'
+
+function requireKey(credentials: ProviderCredentials): string {
+  if (!credentials.apiKey) {
+    throw new Error('SteamGridDB API requires an API key')
+  }
+  return credentials.apiKey
+}
+
+async function get<T>(
+  path: string,
+  apiKey: string,
+  signal?: AbortSignal,
+): Promise<T> {
+  const baseUrl = getBaseUrl('steamgriddb', DEFAULT_BASE_URL)
+  const response = await fetch(`${baseUrl}${path}`, {
+    headers: { Authorization: `Bearer ${apiKey}` },
+    signal,
+  })
+
+  // Unknown games answer 404 rather than an empty list
+  if (response.status === 404) {
+    return [] as T
+  }
+  if (!response.ok) {
+    throw responseError('SteamGridDB API', response)
+  }
+
+  const data: SteamGridDBResponse<T> = await response.json()
+  return data.data
+}
+
+async function search(
+  query: GameQuery,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal,
+): Promise<CoverCandidate[]> {
+  const apiKey = requireKey(credentials)
+
+  // SteamGridDB has no platform filter, its games are matched by title only
+  const games = await get<SteamGridDBGame[]>(
+    `/search/autocomplete/${encodeURIComponent(query.title)}`,
+    apiKey,
+    signal,
+  )
+
+  return (games || []).map((game) => ({
+    providerId: 'steamgriddb',
+    id: game.id,
+    title: game.name,
+    platformIds: [],
+    platformNames: [],
+    releaseDate: game.release_date
+      ? new Date(game.release_date * 1000).toISOString().slice(0, 10)
+      : undefined,
+  }))
+}
+
+async function resolveArtwork(
+  candidate: CoverCandidate,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal,
+): Promise<string> {
+  const apiKey = requireKey(credentials)
+  const options = readOptions(steamGridDBProvider, credentials)
+  const artType = ART_TYPES[options.artType as ArtType] || ART_TYPES.grid
+
+  const params = new URLSearchParams({
+    nsfw: optionEnabled(options.excludeNsfw) ? 'false' : 'any',
+    humor: optionEnabled(options.excludeHumor) ? 'false' : 'any',
+  })
+  const styles = optionList(options.styles).filter((style) =>
+    artType.styles.includes(style),
+  )
+  if (styles.length > 0) {
+    params.append('styles', styles.join(','))
+  }
+  const dimensions = optionList(options.dimensions).filter((dimension) =>
+    artType.dimensions.includes(dimension),
+  )
+  if (dimensions.length > 0) {
+    params.append('dimensions', dimensions.join(','))
+  }
+
+  // Images come back ordered by their community score
+  const images = await get<SteamGridDBImage[]>(
+    `/${artType.path}/game/${candidate.id}?${params}`,
+    apiKey,
+    signal,
+  )
+  return images?.[0]?.url || ''
+}
+
+export const steamGridDBProvider: CoverProvider = {
+  id: 'steamgriddb',
+  name: 'SteamGridDB',
+  description:
+    'SteamGridDB is a community collection of launcher artwork: vertical 600x900 grids, wide heroes, logos and icons. API key required.',
+  about:
+    'Community collection of launcher artwork, with vertical 600x900 grids, wide heroes, logos and icons in several styles. Matches on title only, since it has no platform data.',
+  credentialsHint: 'Add your SteamGridDB API key (required)',
+  signup: {
+    prefix: 'Get a free API key in your',
+    url: 'https://www.steamgriddb.com/profile/preferences/api',
+    label: 'SteamGridDB preferences',
+  },
+  credentials: [
+    {
+      key: 'apiKey',
+      label: 'SteamGridDB API Key',
+      required: true,
+      placeholder: 'Enter your SteamGridDB API key...',
+      envVar: 'STEAMGRIDDB_API_KEY',
+    },
+  ],
+  options: [
+    {
+      key: 'artType',
+      label: 'Artwork',
+      type: 'select',
+      choices: [
+        { value: 'grid', label: 'Grids' },
+        { value: 'hero', label: 'Heroes' },
+        { value: 'logo', label: 'Logos' },
+        { value: 'icon', label: 'Icons' },
+      ],
+      default: 'grid',
+    },
+    {
+      key: 'styles',
+      label: 'Styles',
+      type: 'multiselect',
+      choices: [
+        { value: 'alternate', label: 'Alternate' },
+        { value: 'blurred', label: 'Blurred' },
+        { value: 'white_logo', label: 'White logo' },
+        { value: 'material', label: 'Material' },
+        { value: 'no_logo', label: 'No logo' },
+        { value: 'official', label: 'Official' },
+        { value: 'white', label: 'White' },
+        { value: 'black', label: 'Black' },
+        { value: 'custom', label: 'Custom' },
+      ],
+      default: '',
+      help: 'Any style when none is selected. Styles the chosen artwork does not come in are ignored.',
+    },
+    {
+      key: 'dimensions',
+      label: 'Dimensions',
+      type: 'multiselect',
+      choices: [
+        { value: '600x900', label: '600x900' },
+        { value: '342x482', label: '342x482' },
+        { value: '660x930', label: '660x930' },
+        { value: '920x430', label: '920x430' },
+        { value: '460x215', label: '460x215' },
+        { value: '512x512', label: '512x512' },
+        { value: '1024x1024', label: '1024x1024' },
+        { value: '1920x620', label: '1920x620' },
+        { value: '3840x1240', label: '3840x1240' },
+        { value: '256', label: '256 (icon)' },
+        { value: '512', label: '512 (icon)' },
+      ],
+      default: '600x900',
+      help: 'Any size when none is selected. Sizes the chosen artwork does not come in are ignored.',
+    },
+    {
+      key: 'excludeNsfw',
+      label: 'Exclude NSFW',
+      type: 'toggle',
+      default: 'true',
+    },
+    {
+      key: 'excludeHumor',
+      label: 'Exclude humor',
+      type: 'toggle',
+      default: 'true',
+    },
+  ],
+  // No documented limit; stay polite to a community-run service
+  rateLimit: { requestsPerSecond: 4, burst: 4, maxConcurrent: 4 },
+  search,
+  resolveArtwork,
+}
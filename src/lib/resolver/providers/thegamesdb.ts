@@ -0,0 +1,194 @@
+import type {
+  CoverProvider,
+  ProviderCredentials,
+  GameQuery,
+  CoverCandidate,
+} from '@/lib/resolver/providers/types'
+import { getPlatformIds } from '@/lib/resolver/platforms'
+import { responseError } from '@/lib/resolver/providers/errors'
+import { getBaseUrl } from '@/lib/resolver/providers/endpoints'
+
+interface TheGamesDBGame {
+  id: number
+  game_title: string
+  release_date?: string
+  platform: number
+}
+
+interface TheGamesDBImage {
+  id: number
+  type: string
+  side?: string
+  // Path relative to the base URL, e.g. "boxart/front/1-1.jpg"
+  filename: string
+  resolution?: string
+}
+
+interface TheGamesDBImageBaseUrl {
+  original: string
+  small: string
+  thumb: string
+  cropped_center_thumb: string
+  medium: string
+  large: string
+}
+
+interface TheGamesDBResponse {
+  code: number
+  status: string
+  data: {
+    count: number
+    games: TheGamesDBGame[]
+  }
+  include?: {
+    boxart?: {
+      base_url: TheGamesDBImageBaseUrl
+      data: Record<string, TheGamesDBImage[]>
+    }
+    platform?: {
+      data: Record<string, { id: number; name: string }>
+    }
+  }
+  pages?: {
+    previous: string
+    current: string
+    next: string
+  }
+  remaining_monthly_allowance?: number
+  extra_allowance?: number
+}
+
+interface TheGamesDBImagesResponse {
+  code: number
+  status: string
+  data: {
+    count: number
+    base_url: TheGamesDBImageBaseUrl
+    images: Record<string, TheGamesDBImage[]>
+  }
+}
+
+const DEFAULT_BASE_URL = 'https://api.thegamesdb.net/v1'
+
+// Prefer the front box art, then any box art, then whatever image exists
+function pickCover(images: TheGamesDBImage[]): TheGamesDBImage | undefined {
+  return (
+    images.find((img) => img.type === 'boxart' && img.side === 'front') ||
+    images.find((img) => img.type === 'boxart') ||
+    images.find((img) => img.type === 'screenshot') ||
+    images[0]
+  )
+}
+
+async function search(
+  query: GameQuery,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal,
+): Promise<CoverCandidate[]> {
+  if (!credentials.apiKey) {
+    throw new Error('TheGamesDB API requires an API key')
+  }
+
+  const ids = getPlatformIds('thegamesdb', query.systemName)
+
+  const params = new URLSearchParams({
+    apikey: credentials.apiKey,
+    name: query.title,
+    fields: 'platform,release_date',
+    include: 'boxart,platform',
+  })
+
+  if (ids.length > 0) {
+    params.append('filter[platform]', ids.join(','))
+  }
+
+  const baseUrl = getBaseUrl('thegamesdb', DEFAULT_BASE_URL)
+  const response = await fetch(`${baseUrl}/Games/ByGameName?${params}`, {
+    signal,
+  })
+
+  if (!response.ok) {
+    throw responseError('TheGamesDB API', response)
+  }
+
+  const data: TheGamesDBResponse = await response.json()
+  const boxart = data.include?.boxart
+  const platforms = data.include?.platform?.data || {}
+
+  return (data.data?.games || []).map((game) => {
+    const cover = boxart && pickCover(boxart.data[game.id.toString()] || [])
+    return {
+      providerId: 'thegamesdb',
+      id: game.id,
+      title: game.game_title,
+      platformIds: [game.platform],
+      platformNames: platforms[game.platform.toString()]
+        ? [platforms[game.platform.toString()].name]
+        : [],
+      releaseDate: game.release_date,
+      imageUrl: cover ? boxart.base_url.original + cover.filename : undefined,
+      thumbnailUrl: cover ? boxart.base_url.thumb + cover.filename : undefined,
+    }
+  })
+}
+
+async function resolveArtwork(
+  candidate: CoverCandidate,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal,
+): Promise<string> {
+  // Box art included in the search response
+  if (candidate.imageUrl) {
+    return candidate.imageUrl
+  }
+
+  if (!credentials.apiKey) {
+    throw new Error('TheGamesDB API requires an API key')
+  }
+
+  const params = new URLSearchParams({
+    apikey: credentials.apiKey,
+    games_id: candidate.id.toString(),
+  })
+
+  const baseUrl = getBaseUrl('thegamesdb', DEFAULT_BASE_URL)
+  const response = await fetch(`${baseUrl}/Games/Images?${params}`, { signal })
+
+  if (!response.ok) {
+    throw responseError('TheGamesDB Images API', response)
+  }
+
+  const imagesData: TheGamesDBImagesResponse = await response.json()
+  const gameImages = imagesData.data?.images?.[candidate.id.toString()] || []
+  const cover = pickCover(gameImages)
+
+  return cover ? imagesData.data.base_url.original + cover.filename : ''
+}
+
+export const theGamesDBProvider: CoverProvider = {
+  id: 'thegamesdb',
+  name: 'TheGamesDB',
+  description:
+    'TheGamesDB is a community-driven game database with excellent retro game coverage. API key required.',
+  about:
+    'Community-driven game database with excellent retro game coverage. Requires an API key but offers great results for older and obscure titles.',
+  credentialsHint: 'Add your TheGamesDB API key (required)',
+  signup: {
+    prefix: 'Get a free API key at',
+    url: 'https://thegamesdb.net/api-key.php',
+    label: 'thegamesdb.net/api-key.php',
+  },
+  credentials: [
+    {
+      key: 'apiKey',
+      label: 'TheGamesDB API Key',
+      required: true,
+      placeholder: 'Enter your TheGamesDB API key...',
+      envVar: 'TGDB_API_KEY',
+    },
+  ],
+  // The allowance is a monthly request count per key, so stay gentle
+  rateLimit: { requestsPerSecond: 1, burst: 2, maxConcurrent: 2 },
+  search,
+  resolveArtwork,
+}
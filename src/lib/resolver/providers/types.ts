@@ -0,0 +1,108 @@
+export type ProviderId = string
+
+// Credential and option values keyed by CredentialField.key and
+// ProviderOption.key
+export type ProviderCredentials = Record<string, string | undefined>
+
+export interface CredentialField {
+  key: string
+  label: string
+  required: boolean
+  placeholder: string
+  // Server environment variable used when the client leaves the field empty
+  envVar: string
+  help?: string
+}
+
+export interface OptionChoice {
+  value: string
+  label: string
+}
+
+// Provider-specific search setting. Values are strings: "true" or "false"
+// for toggles, comma-separated values for multiple choices.
+export interface ProviderOption {
+  key: string
+  label: string
+  type: 'select' | 'multiselect' | 'toggle'
+  choices?: OptionChoice[]
+  default: string
+  help?: string
+}
+
+// Token bucket: up to `burst` requests at once, refilled at
+// `requestsPerSecond`, with at most `maxConcurrent` requests in flight
+export interface RateLimitPolicy {
+  requestsPerSecond: number
+  burst?: number
+  maxConcurrent: number
+}
+
+export interface ProviderSignup {
+  prefix: string
+  url: string
+  label: string
+  suffix?: string
+}
+
+// The game's ROM file, when the input describes it. Providers that can
+// identify a game by its file use it before falling back to the title.
+export interface RomFile {
+  crc?: string
+  md5?: string
+  sha1?: string
+  // File name, including the extension
+  romName?: string
+  // File size in bytes
+  size?: number
+}
+
+export interface GameQuery extends RomFile {
+  title: string
+  systemName: string
+  // Release year, used to break ties between remakes and re-releases
+  year?: number
+}
+
+export interface CoverCandidate {
+  providerId: ProviderId
+  id: number
+  title: string
+  platformIds: number[]
+  platformNames: string[]
+  releaseDate?: string
+  // Identified from the ROM file rather than by title, so it is a certain
+  // match whatever its title
+  identified?: boolean
+  // Set when the search response already carries the artwork
+  imageUrl?: string
+  thumbnailUrl?: string
+}
+
+export interface CoverProvider {
+  id: ProviderId
+  name: string
+  // Short description shown in the provider tab
+  description: string
+  // Longer description shown in the instructions card
+  about: string
+  // Instruction step describing which credentials to enter
+  credentialsHint: string
+  signup: ProviderSignup
+  credentials: CredentialField[]
+  options?: ProviderOption[]
+  // Uses the ROM file of the query, which then becomes part of the cache key
+  matchesRomFiles?: boolean
+  rateLimit: RateLimitPolicy
+  // `signal` aborts every request made for the call
+  search(
+    query: GameQuery,
+    credentials: ProviderCredentials,
+    signal?: AbortSignal,
+  ): Promise<CoverCandidate[]>
+  resolveArtwork(
+    candidate: CoverCandidate,
+    credentials: ProviderCredentials,
+    signal?: AbortSignal,
+  ): Promise<string>
+}
@@ -0,0 +1,254 @@
+import {
+  isAbortError,
+  readOptions,
+  type CoverCandidate,
+  type CoverProvider,
+  type GameQuery,
+  type ProviderCredentials,
+  type ProviderId,
+} from '@/lib/resolver/providers'
+import { getPlatformIds } from '@/lib/resolver/platforms'
+import { rankCandidates, type ScoredCandidate } from '@/lib/resolver/matching'
+import { withRetry, type RetryOptions } from '@/lib/resolver/retry'
+import {
+  cacheKey,
+  type CachedLookup,
+  type CoverCache,
+} from '@/lib/resolver/cache'
+
+export interface CoverMatch {
+  providerId: ProviderId
+  candidate: CoverCandidate
+  imageUrl: string
+  // Match confidence between 0 and 1
+  score: number
+}
+
+export interface ChainEntry {
+  provider: CoverProvider
+  credentials: ProviderCredentials
+}
+
+export interface CoverResult {
+  match: CoverMatch | null
+  // Best scoring candidates of every provider that was tried
+  candidates: ScoredCandidate[]
+  // Why the lookup failed, when a provider threw
+  error?: string
+  // Requests that were retried after a transient failure
+  retries: number
+  // Every provider lookup was served from the cache
+  cached?: boolean
+}
+
+export type ResolutionStatus = 'found' | 'not_found' | 'error' | 'skipped'
+
+// Provenance of a game's cover, for auditing and selective re-runs
+export interface CoverResolution {
+  status: ResolutionStatus
+  providerId?: ProviderId
+  // The game's ID in the provider's database
+  providerGameId?: number
+  matchedTitle?: string
+  score?: number
+  error?: string
+  retries?: number
+  // Served from the cache without querying the provider
+  cached?: boolean
+}
+
+// A failed provider request that is about to be retried
+export interface RetryEvent {
+  providerId: ProviderId
+  title: string
+  error: unknown
+  delayMs: number
+}
+
+// A provider lookup that failed for good, after its retries
+export interface LookupErrorEvent {
+  providerId: ProviderId
+  title: string
+  error: unknown
+}
+
+export interface ChainOptions {
+  // Matches scoring below this fall through to the next provider
+  minScore?: number
+  // Candidates kept per provider for manual review
+  maxCandidates?: number
+  // Backoff for network errors, 5xx and 429 responses
+  retry?: RetryOptions
+  // Aborts the lookup; the abort error is thrown rather than reported
+  signal?: AbortSignal
+  // Lookups are stored per provider, title and platform
+  cache?: CoverCache
+  // Query the providers even when the cache has an entry, and refresh it
+  bypassCache?: boolean
+  // Called before each retry; retries are logged to the console without it
+  onRetry?: (event: RetryEvent) => void
+  // Called when a provider fails; the failure is also in the result's `error`
+  onError?: (event: LookupErrorEvent) => void
+}
+
+export const DEFAULT_MIN_SCORE = 0.75
+export const DEFAULT_MAX_CANDIDATES = 5
+
+export async function findGameCover(
+  provider: CoverProvider,
+  query: GameQuery,
+  credentials: ProviderCredentials,
+  options: ChainOptions = {},
+): Promise<CoverResult> {
+  const { maxCandidates = DEFAULT_MAX_CANDIDATES, signal, cache } = options
+  const key = cacheKey(
+    provider.id,
+    query,
+    readOptions(provider, credentials),
+    provider.matchesRomFiles,
+  )
+  if (cache && !options.bypassCache) {
+    const cached = await cache.get(key)
+    if (cached) {
+      return { ...cached, retries: 0, cached: true }
+    }
+  }
+
+  let retries = 0
+  const retry = <T>(task: () => Promise<T>) =>
+    withRetry(
+      task,
+      options.retry,
+      (error, delayMs) => {
+        retries++
+        if (options.onRetry) {
+          options.onRetry({
+            providerId: provider.id,
+            title: query.title,
+            error,
+            delayMs,
+          })
+          return
+        }
+        console.warn(
+          `Retrying ${provider.name} for ${query.title} in ${delayMs}ms:`,
+          error,
+        )
+      },
+      signal,
+    )
+
+  const lookup = async (): Promise<CachedLookup> => {
+    const candidates = await retry(() =>
+      provider.search(query, credentials, signal),
+    )
+
+    if (candidates.length === 0) {
+      return { match: null, candidates: [] }
+    }
+
+    const ranked = rankCandidates(
+      candidates,
+      query,
+      getPlatformIds(provider.id, query.systemName),
+    ).slice(0, maxCandidates)
+    const [{ candidate, score }] = ranked
+
+    const imageUrl = await retry(() =>
+      provider.resolveArtwork(candidate, credentials, signal),
+    )
+    if (!imageUrl) {
+      return { match: null, candidates: ranked }
+    }
+
+    return {
+      match: { providerId: provider.id, candidate, imageUrl, score },
+      candidates: ranked,
+    }
+  }
+
+  try {
+    // Failed lookups are not cached so they are retried next time
+    const result = await lookup()
+    await cache?.set(key, result)
+    return { ...result, retries }
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error
+    }
+    options.onError?.({ providerId: provider.id, title: query.title, error })
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return {
+      match: null,
+      candidates: [],
+      error: `${provider.name}: ${message}`,
+      retries,
+    }
+  }
+}
+
+// Try each provider in order until one returns a cover scoring at least
+// `minScore`. When none does, the best low-confidence match is returned.
+export async function resolveWithChain(
+  chain: ChainEntry[],
+  query: GameQuery,
+  options: ChainOptions = {},
+): Promise<CoverResult> {
+  const { minScore = DEFAULT_MIN_SCORE } = options
+  const candidates: ScoredCandidate[] = []
+  const errors: string[] = []
+  let fallback: CoverMatch | null = null
+  let retries = 0
+  let cached = true
+
+  for (const { provider, credentials } of chain) {
+    const result = await findGameCover(provider, query, credentials, options)
+    candidates.push(...result.candidates)
+    retries += result.retries
+    cached &&= Boolean(result.cached)
+    if (result.error) {
+      errors.push(result.error)
+    }
+
+    if (!result.match) {
+      continue
+    }
+
+    if (result.match.score >= minScore) {
+      return { match: result.match, candidates, retries, cached }
+    }
+
+    if (!fallback || result.match.score > fallback.score) {
+      fallback = result.match
+    }
+  }
+
+  return {
+    match: fallback,
+    candidates,
+    error: errors.length > 0 ? errors.join('; ') : undefined,
+    retries,
+    cached: chain.length > 0 && cached,
+  }
+}
+
+// A game counts as an error only when no cover was found and a provider
+// failed; a provider failing before another one matched is still a match.
+export function describeResolution(result: CoverResult): CoverResolution {
+  const { match, retries, cached } = result
+  if (match) {
+    return {
+      status: 'found',
+      providerId: match.providerId,
+      providerGameId: match.candidate.id,
+      matchedTitle: match.candidate.title,
+      score: match.score,
+      retries,
+      cached,
+    }
+  }
+  if (result.error) {
+    return { status: 'error', error: result.error, retries }
+  }
+  return { status: 'not_found', retries, cached }
+}
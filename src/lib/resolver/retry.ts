@@ -0,0 +1,80 @@
+import { ProviderError } from '@/lib/resolver/providers/errors'
+
+export interface RetryOptions {
+  // Retries after the first attempt
+  maxRetries?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+}
+
+// Network failures, server errors and rate limiting are worth another try;
+// anything else, like a bad key or an aborted request, fails right away
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    return error.rateLimited || error.status >= 500
+  }
+  // fetch rejects with a TypeError when the request never got a response
+  return error instanceof TypeError
+}
+
+// Resolves after the delay, or rejects as soon as the signal aborts
+export function sleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, delayMs)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Full jitter: a random delay up to the exponential backoff, but never
+// shorter than what the provider asked for
+export function retryDelay(
+  retry: number,
+  error: unknown,
+  options: RetryOptions = {},
+  random: () => number = Math.random,
+): number {
+  const { baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_OPTIONS, ...options }
+  const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** retry)
+  const jittered = Math.round(random() * backoff)
+  const retryAfter =
+    error instanceof ProviderError ? error.retryAfterMs : undefined
+  return retryAfter !== undefined ? Math.max(retryAfter, jittered) : jittered
+}
+
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  options: RetryOptions = {},
+  onRetry?: (error: unknown, delayMs: number) => void,
+  signal?: AbortSignal,
+): Promise<T> {
+  const { maxRetries } = { ...DEFAULT_RETRY_OPTIONS, ...options }
+  for (let retry = 0; ; retry++) {
+    try {
+      return await task()
+    } catch (error) {
+      if (retry >= maxRetries || !isRetryable(error)) {
+        throw error
+      }
+      const delay = retryDelay(retry, error, options)
+      onRetry?.(error, delay)
+      await sleep(delay, signal)
+    }
+  }
+}
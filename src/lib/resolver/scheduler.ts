@@ -0,0 +1,220 @@
+import {
+  ProviderError,
+  type CoverProvider,
+  type RateLimitPolicy,
+} from '@/lib/resolver/providers'
+
+export interface RateLimiter {
+  // Run the task once a concurrency slot and a token are available. An
+  // aborted signal removes the task from the queue.
+  schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T>
+  // Hold back every waiting and future task for the given time
+  pause(delayMs: number): void
+}
+
+export const DEFAULT_CONCURRENCY = 4
+// Pause after a 429 that doesn't say how long to wait
+export const DEFAULT_RATE_LIMIT_PAUSE_MS = 5_000
+
+// Token bucket with a concurrency cap. Waiting tasks run in FIFO order.
+export function createRateLimiter(
+  policy: RateLimitPolicy,
+  now: () => number = Date.now,
+): RateLimiter {
+  const capacity = Math.max(1, policy.burst ?? policy.requestsPerSecond)
+  const perMs = policy.requestsPerSecond / 1000
+  const queue: (() => void)[] = []
+  let tokens = capacity
+  let updatedAt = now()
+  let active = 0
+  let pausedUntil = 0
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const wakeUpIn = (delayMs: number) => {
+    if (!timer) {
+      timer = setTimeout(() => {
+        timer = null
+        drain()
+      }, delayMs)
+    }
+  }
+
+  const refill = () => {
+    const time = now()
+    tokens = Math.min(capacity, tokens + (time - updatedAt) * perMs)
+    updatedAt = time
+  }
+
+  const drain = () => {
+    const pauseLeft = pausedUntil - now()
+    if (pauseLeft > 0) {
+      if (queue.length > 0) {
+        wakeUpIn(pauseLeft)
+      }
+      return
+    }
+
+    refill()
+    while (queue.length > 0 && active < policy.maxConcurrent && tokens >= 1) {
+      tokens -= 1
+      active++
+      queue.shift()?.()
+    }
+
+    // Out of tokens: wake up when the next one is available. A full
+    // concurrency cap is drained again when a task finishes instead.
+    if (queue.length > 0 && active < policy.maxConcurrent) {
+      wakeUpIn(Math.ceil((1 - tokens) / perMs))
+    }
+  }
+
+  return {
+    async schedule(task, signal) {
+      await new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason)
+          return
+        }
+        const onAbort = () => {
+          queue.splice(queue.indexOf(start), 1)
+          reject(signal?.reason)
+        }
+        const start = () => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        }
+        signal?.addEventListener('abort', onAbort, { once: true })
+        queue.push(start)
+        drain()
+      })
+      try {
+        return await task()
+      } finally {
+        active--
+        drain()
+      }
+    },
+    pause(delayMs) {
+      pausedUntil = Math.max(pausedUntil, now() + delayMs)
+      // Reschedule a pending token wake-up so it respects the pause
+      if (timer) {
+        clearTimeout(timer)
+        timer = null
+      }
+      drain()
+    },
+  }
+}
+
+// Route every request of the provider through the limiter. When the
+// provider signals rate limiting, all of its requests are paused.
+export function withRateLimit(
+  provider: CoverProvider,
+  limiter: RateLimiter,
+): CoverProvider {
+  const schedule = async <T>(task: () => Promise<T>, signal?: AbortSignal) => {
+    try {
+      return await limiter.schedule(task, signal)
+    } catch (error) {
+      if (error instanceof ProviderError && error.rateLimited) {
+        limiter.pause(error.retryAfterMs ?? DEFAULT_RATE_LIMIT_PAUSE_MS)
+      }
+      throw error
+    }
+  }
+
+  return {
+    ...provider,
+    search: (query, credentials, signal) =>
+      schedule(() => provider.search(query, credentials, signal), signal),
+    resolveArtwork: (candidate, credentials, signal) =>
+      schedule(
+        () => provider.resolveArtwork(candidate, credentials, signal),
+        signal,
+      ),
+  }
+}
+
+export interface PauseGate {
+  readonly paused: boolean
+  pause(): void
+  resume(): void
+  // Resolves right away unless paused, then on resume or abort
+  wait(signal?: AbortSignal): Promise<void>
+}
+
+export function createPauseGate(): PauseGate {
+  let paused = false
+  let waiting: (() => void)[] = []
+
+  return {
+    get paused() {
+      return paused
+    },
+    pause() {
+      paused = true
+    },
+    resume() {
+      paused = false
+      const release = waiting
+      waiting = []
+      release.forEach((resolve) => resolve())
+    },
+    wait(signal) {
+      if (!paused || signal?.aborted) {
+        return Promise.resolve()
+      }
+      return new Promise((resolve) => {
+        const onAbort = () => {
+          waiting.splice(waiting.indexOf(release), 1)
+          resolve()
+        }
+        const release = () => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        }
+        signal?.addEventListener('abort', onAbort, { once: true })
+        waiting.push(release)
+      })
+    },
+  }
+}
+
+export interface RunOptions {
+  // Stops picking up new items; items never started are left out
+  signal?: AbortSignal
+  // Holds back new items while paused, letting started ones finish
+  gate?: PauseGate
+}
+
+// Run the worker over every item with at most `concurrency` in flight.
+// Results keep the order of the items, with holes for skipped items.
+export async function runConcurrently<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  options: RunOptions = {},
+): Promise<(R | undefined)[]> {
+  const { signal, gate } = options
+  const results: (R | undefined)[] = new Array(items.length)
+  let next = 0
+
+  const run = async () => {
+    while (next < items.length) {
+      await gate?.wait(signal)
+      if (signal?.aborted || next >= items.length) {
+        return
+      }
+      const index = next++
+      results[index] = await worker(items[index], index)
+    }
+  }
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, items.length)) },
+      run,
+    ),
+  )
+  return results
+}
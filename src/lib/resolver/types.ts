@@ -0,0 +1,8 @@
+import type { RomFile } from '@/lib/resolver/providers/types'
+
+export interface GameItem extends RomFile {
+  title: string
+  systemName: string
+  year?: number
+  imageUrl?: string
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { ProviderError } from '@/lib/resolver/providers/errors'
+import type { ErrorResponseBody } from '@/lib/resolver/providers/remote'
+
+export function jsonError(
+  error: string,
+  status: number,
+  headers?: Record<string, string>,
+) {
+  return NextResponse.json<ErrorResponseBody>({ error }, { status, headers })
+}
+
+export async function readJson<T>(request: Request): Promise<T | null> {
+  try {
+    return (await request.json()) as T
+  } catch {
+    return null
+  }
+}
+
+export function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+// Pass rate limiting and client errors like a rejected key through to the
+// client, so it only retries what another try can fix. Server and network
+// failures upstream are reported as a bad gateway.
+export function upstreamError(error: unknown) {
+  if (error instanceof ProviderError) {
+    if (error.rateLimited) {
+      const headers: Record<string, string> = {}
+      if (error.retryAfterMs !== undefined) {
+        headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000))
+      }
+      return jsonError(errorMessage(error), 429, headers)
+    }
+    if (error.status >= 400 && error.status < 500) {
+      return jsonError(errorMessage(error), error.status)
+    }
+    return jsonError(errorMessage(error), 502)
+  }
+  // fetch rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError) {
+    return jsonError(errorMessage(error), 502)
+  }
+  // Anything else is a provider rejecting the request itself, like a
+  // missing key
+  return jsonError(errorMessage(error), 400)
+}
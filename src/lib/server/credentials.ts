@@ -0,0 +1,24 @@
+import type { CoverProvider, ProviderCredentials } from '@/lib/resolver'
+
+// Fill in every credential the client left empty from the server environment.
+// Option values are passed through as given.
+export function resolveServerCredentials(
+  provider: CoverProvider,
+  supplied: ProviderCredentials = {},
+): ProviderCredentials {
+  const credentials: ProviderCredentials = {}
+  for (const field of provider.credentials) {
+    credentials[field.key] = supplied[field.key] || process.env[field.envVar]
+  }
+  for (const option of provider.options || []) {
+    credentials[option.key] = supplied[option.key]
+  }
+  return credentials
+}
+
+// Keys of the credentials that are available from the server environment
+export function getConfiguredCredentials(provider: CoverProvider): string[] {
+  return provider.credentials
+    .filter((field) => Boolean(process.env[field.envVar]))
+    .map((field) => field.key)
+}
@@ -0,0 +1,29 @@
+import type { CoverCandidate } from '@/lib/resolver'
+import { mediaParams } from '@/lib/resolver/providers/screenscraper'
+
+const SCREENSCRAPER_MEDIA_PATH = '/api/media/screenscraper'
+
+// ScreenScraper media URLs only load with developer credentials, which must
+// not reach the client when they come from the server environment. They are
+// sent as a route of this app instead, which adds the credentials.
+export function proxyMediaUrl(url: string, requestUrl: string): string {
+  const params = mediaParams(url)
+  if (!params) {
+    return url
+  }
+  return new URL(`${SCREENSCRAPER_MEDIA_PATH}?${params}`, requestUrl).href
+}
+
+export function proxyCandidateMedia(
+  candidate: CoverCandidate,
+  requestUrl: string,
+): CoverCandidate {
+  return {
+    ...candidate,
+    imageUrl:
+      candidate.imageUrl && proxyMediaUrl(candidate.imageUrl, requestUrl),
+    thumbnailUrl:
+      candidate.thumbnailUrl &&
+      proxyMediaUrl(candidate.thumbnailUrl, requestUrl),
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { execFile } from 'node:child_process'
+import { tmpdir } from 'node:os'
+import { fileURLToPath } from 'node:url'
+import { promisify } from 'node:util'
+
+const BIN = fileURLToPath(
+  new URL('../bin/game-cover-resolver.mjs', import.meta.url),
+)
+
+describe('game-cover-resolver bin', () => {
+  test('runs from any working directory', async () => {
+    const { stdout } = await promisify(execFile)(
+      process.execPath,
+      [BIN, '--help'],
+      { cwd: tmpdir(), timeout: 60_000 },
+    )
+    assert.match(stdout, /^Usage: game-cover-resolver/)
+  })
+})
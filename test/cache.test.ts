@@ -0,0 +1,29 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { cacheKey } from '@/lib/resolver'
+
+describe('cacheKey', () => {
+  test('shares an entry between equivalent titles and platforms', () => {
+    assert.equal(
+      cacheKey('rawg', { title: 'Pokémon Red', systemName: 'gb' }),
+      cacheKey('rawg', { title: 'Pokemon Red', systemName: 'Game Boy' }),
+    )
+  })
+
+  test('keeps games of different years apart', () => {
+    const doom = { title: 'Doom', systemName: 'PC' }
+
+    assert.equal(
+      cacheKey('rawg', { ...doom, year: 1993 }),
+      'rawg:pc:doom:year=1993',
+    )
+    assert.notEqual(
+      cacheKey('rawg', { ...doom, year: 1993 }),
+      cacheKey('rawg', { ...doom, year: 2016 }),
+    )
+    assert.notEqual(
+      cacheKey('rawg', doom),
+      cacheKey('rawg', { ...doom, year: 2016 }),
+    )
+  })
+})
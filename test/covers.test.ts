@@ -0,0 +1,129 @@
+import { describe, mock, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  getProvider,
+  resolveCovers,
+  type CoverProvider,
+  type GameItem,
+  type LookupErrorEvent,
+} from '@/lib/resolver'
+import { ProviderError } from '@/lib/resolver/providers/errors'
+
+const games: GameItem[] = ['Doom', 'Quake', 'Hexen'].map((title) => ({
+  title,
+  systemName: 'PC',
+}))
+
+// A provider that finds every game, optionally waiting on each search
+function fakeProvider(
+  beforeSearch: (title: string, signal?: AbortSignal) => Promise<void> = () =>
+    Promise.resolve(),
+): CoverProvider {
+  return {
+    ...getProvider('rawg'),
+    search: async (query, _credentials, signal) => {
+      await beforeSearch(query.title, signal)
+      return [
+        {
+          providerId: 'rawg',
+          id: query.title.length,
+          title: query.title,
+          platformIds: [],
+          platformNames: [],
+          imageUrl: `https://example.com/${query.title}.jpg`,
+        },
+      ]
+    },
+    resolveArtwork: async (candidate) => candidate.imageUrl || '',
+  }
+}
+
+describe('resolveCovers', () => {
+  test('keeps what was resolved when cancelled between games', async () => {
+    const controller = new AbortController()
+
+    const result = await resolveCovers(games, {
+      chain: [{ provider: fakeProvider(), credentials: {} }],
+      concurrency: 1,
+      signal: controller.signal,
+      onProgress: () => controller.abort(),
+    })
+
+    assert.equal(result.cancelled, true)
+    assert.equal(result.completed, 1)
+    assert.deepEqual(
+      result.resolutions.map((resolution) => resolution.status),
+      ['found', 'skipped', 'skipped'],
+    )
+    assert.equal(result.games[0].imageUrl, 'https://example.com/Doom.jpg')
+    assert.equal(result.games[1].imageUrl, undefined)
+  })
+
+  test('reports a lookup cancelled midway as skipped, not failed', async () => {
+    const controller = new AbortController()
+    const provider = fakeProvider(async (title, signal) => {
+      if (title === 'Quake') {
+        controller.abort()
+        signal?.throwIfAborted()
+      }
+    })
+
+    const result = await resolveCovers(games, {
+      chain: [{ provider, credentials: {} }],
+      concurrency: 1,
+      signal: controller.signal,
+    })
+
+    assert.equal(result.cancelled, true)
+    assert.deepEqual(
+      result.resolutions.map((resolution) => resolution.status),
+      ['found', 'skipped', 'skipped'],
+    )
+  })
+
+  test('keeps the previous resolution of games that are not pending', async () => {
+    const previous = { status: 'found' as const, providerId: 'rawg' as const }
+
+    const result = await resolveCovers(games, {
+      chain: [{ provider: fakeProvider(), credentials: {} }],
+      pending: [1],
+      previous: [previous, undefined, undefined],
+    })
+
+    assert.equal(result.completed, 1)
+    assert.deepEqual(result.resolutions[0], previous)
+    assert.equal(result.resolutions[1].status, 'found')
+    assert.equal(result.resolutions[2].status, 'skipped')
+  })
+
+  test('reports failed providers through onError, not the console', async () => {
+    const failing = fakeProvider(async (title) => {
+      throw new ProviderError(`No access to ${title}`, 403)
+    })
+    const events: LookupErrorEvent[] = []
+    const consoleError = mock.method(console, 'error', () => {})
+
+    try {
+      const result = await resolveCovers(games.slice(0, 1), {
+        chain: [
+          { provider: { ...failing, name: 'Failing' }, credentials: {} },
+          { provider: fakeProvider(), credentials: {} },
+        ],
+        onError: (event) => events.push(event),
+      })
+
+      assert.equal(result.resolutions[0].status, 'found')
+      assert.deepEqual(
+        events.map(({ providerId, title, error }) => [
+          providerId,
+          title,
+          (error as Error).message,
+        ]),
+        [['rawg', 'Doom', 'No access to Doom']],
+      )
+      assert.equal(consoleError.mock.callCount(), 0)
+    } finally {
+      consoleError.mock.restore()
+    }
+  })
+})
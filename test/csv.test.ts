@@ -0,0 +1,91 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  gamesToTable,
+  guessColumns,
+  parseTable,
+  tableToGames,
+  writeTable,
+} from '@/lib/formats/csv'
+
+describe('CSV tables', () => {
+  test('reads quoted fields with delimiters, quotes and newlines', () => {
+    const table = parseTable(
+      '\uFEFFTitle,Platform,Notes\r\n' +
+        '"Sonic & Knuckles",Genesis,"Lock-on, ""S&K"""\r\n' +
+        'Tetris,Game Boy,"two\nlines"\r\n\r\n',
+    )
+
+    assert.equal(table.delimiter, ',')
+    assert.deepEqual(table.headers, ['Title', 'Platform', 'Notes'])
+    assert.deepEqual(table.rows, [
+      ['Sonic & Knuckles', 'Genesis', 'Lock-on, "S&K"'],
+      ['Tetris', 'Game Boy', 'two\nlines'],
+    ])
+  })
+
+  test('detects tab and semicolon delimiters', () => {
+    assert.equal(parseTable('name\tsystem\nDoom\tPC').delimiter, '\t')
+    assert.deepEqual(parseTable('name;system\n"Doom; 1993";PC').rows, [
+      ['Doom; 1993', 'PC'],
+    ])
+  })
+
+  test('finds the title, system and ROM columns', () => {
+    const table = parseTable(
+      'Game Name,Console,CRC,size\nSonic,Genesis,F9394E97,524288',
+    )
+    const columns = guessColumns(table.headers)
+
+    assert.deepEqual(columns, { title: 'Game Name', system: 'Console' })
+    assert.deepEqual(tableToGames(table, columns), [
+      {
+        title: 'Sonic',
+        systemName: 'Genesis',
+        imageUrl: undefined,
+        crc: 'F9394E97',
+        size: 524288,
+      },
+    ])
+  })
+
+  test('writes the new columns back in the same format', () => {
+    const text = 'title;system;imageUrl\n"Doom; 1993";PC;old.png\nQuake;PC;'
+    const table = parseTable(text)
+    const output = writeTable(table, [
+      { imageUrl: 'https://example.com/doom.png', provider: 'rawg' },
+      { imageUrl: undefined, provider: undefined },
+    ])
+
+    assert.equal(
+      output,
+      'title;system;imageUrl;provider\n' +
+        '"Doom; 1993";PC;https://example.com/doom.png;rawg\n' +
+        'Quake;PC;;',
+    )
+    // Reading it back keeps the fields intact
+    assert.deepEqual(parseTable(output).rows[0], [
+      'Doom; 1993',
+      'PC',
+      'https://example.com/doom.png',
+      'rawg',
+    ])
+  })
+
+  test('builds a table from JSON games', () => {
+    const table = gamesToTable([
+      { title: 'Doom', tags: ['fps'] },
+      { title: 'Quake', year: 1996 },
+    ])
+
+    assert.deepEqual(table.headers, ['title', 'tags', 'year'])
+    assert.deepEqual(table.rows, [
+      ['Doom', '["fps"]', ''],
+      ['Quake', '', '1996'],
+    ])
+    assert.equal(
+      writeTable(table, []),
+      'title,tags,year\nDoom,"[""fps""]",\nQuake,,1996',
+    )
+  })
+})
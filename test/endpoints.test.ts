@@ -0,0 +1,31 @@
+import { afterEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  baseUrlEnvVar,
+  getBaseUrl,
+  resetBaseUrls,
+  setBaseUrls,
+} from '@/lib/resolver'
+
+describe('base URLs', () => {
+  afterEach(() => {
+    resetBaseUrls()
+    delete process.env.RAWG_BASE_URL
+  })
+
+  test('derive the environment variable from the name', () => {
+    assert.equal(baseUrlEnvVar('thegamesdb'), 'THEGAMESDB_BASE_URL')
+    assert.equal(baseUrlEnvVar('twitch-auth'), 'TWITCH_AUTH_BASE_URL')
+  })
+
+  test('prefer overrides, then the environment, then the default', () => {
+    const fallback = 'https://api.rawg.io/api'
+    assert.equal(getBaseUrl('rawg', fallback), fallback)
+
+    process.env.RAWG_BASE_URL = 'http://mirror.local/rawg/'
+    assert.equal(getBaseUrl('rawg', fallback), 'http://mirror.local/rawg')
+
+    setBaseUrls({ rawg: 'http://127.0.0.1:4000/rawg' })
+    assert.equal(getBaseUrl('rawg', fallback), 'http://127.0.0.1:4000/rawg')
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseGamelist, writeGamelist } from '@/lib/formats/gamelist'
+
+const GAMELIST = `<?xml version="1.0"?>
+<gameList>
+  <!-- Scraped by hand -->
+  <game id="1" source="ScreenScraper.fr">
+    <path>./Sonic The Hedgehog (USA, Europe).zip</path>
+    <name>Sonic the Hedgehog</name>
+    <desc>Sonic &amp; friends</desc>
+    <rating>0.8</rating>
+  </game>
+  <game>
+    <path>./roms/Streets of Rage 2 (USA).md</path>
+    <image>./images/sor2.png</image>
+  </game>
+  <folder>
+    <path>./hacks</path>
+    <name>Hacks</name>
+  </folder>
+</gameList>
+`
+
+describe('gamelist.xml', () => {
+  test('reads names, falling back to the ROM file name', () => {
+    const { games } = parseGamelist(GAMELIST, 'megadrive')
+
+    assert.deepEqual(games, [
+      {
+        title: 'Sonic the Hedgehog',
+        systemName: 'megadrive',
+        imageUrl: undefined,
+        romName: 'Sonic The Hedgehog (USA, Europe).zip',
+      },
+      {
+        title: 'Streets of Rage 2',
+        systemName: 'megadrive',
+        imageUrl: './images/sor2.png',
+        romName: 'Streets of Rage 2 (USA).md',
+      },
+    ])
+  })
+
+  test('adds the images with the indentation of the other tags', () => {
+    const { games, entries } = parseGamelist(GAMELIST, 'megadrive')
+    const output = writeGamelist(GAMELIST, entries, [
+      { ...games[0], imageUrl: 'https://example.com/sonic.png?a=1&b=2' },
+      games[1],
+    ])
+
+    assert.equal(
+      output,
+      GAMELIST.replace(
+        '    <rating>0.8</rating>\n',
+        '    <rating>0.8</rating>\n' +
+          '    <image>https://example.com/sonic.png?a=1&amp;b=2</image>\n' +
+          '    <thumbnail>https://example.com/sonic.png?a=1&amp;b=2</thumbnail>\n',
+      ),
+    )
+  })
+
+  test('replaces existing images and keeps everything else', () => {
+    const { games, entries } = parseGamelist(GAMELIST, 'megadrive')
+    const output = writeGamelist(GAMELIST, entries, [
+      games[0],
+      { ...games[1], imageUrl: 'https://example.com/sor2.png' },
+    ])
+
+    assert.match(output, /<image>https:\/\/example\.com\/sor2\.png<\/image>/)
+    assert.equal(output.match(/<image>/g)?.length, 1)
+    assert.match(output, /<desc>Sonic &amp; friends<\/desc>/)
+    assert.match(output, /<folder>\n {4}<path>\.\/hacks<\/path>/)
+    // Reading the output back gives the new image
+    assert.equal(
+      parseGamelist(output, 'megadrive').games[1].imageUrl,
+      'https://example.com/sor2.png',
+    )
+  })
+
+  test('rejects documents that are not gamelists', () => {
+    assert.throws(() => parseGamelist('<games/>', 'nes'), /not an Emulation/)
+    assert.throws(
+      () => parseGamelist('<gameList></gameList>', 'nes'),
+      /any <game> entries/,
+    )
+  })
+})
@@ -0,0 +1,117 @@
+import { after, before, beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  ProviderError,
+  getPlatformIds,
+  getProvider,
+  resolveWithChain,
+} from '@/lib/resolver'
+import {
+  GIANTBOMB_HOURLY_LIMIT,
+  MOCK_CREDENTIALS,
+  startMockServer,
+  type MockServer,
+} from './mock-server'
+
+const UPLOADS = 'https://www.giantbomb.com/a/uploads'
+
+const query = { title: 'Halo 3', systemName: 'Xbox 360' }
+
+describe('Giant Bomb', () => {
+  let server: MockServer
+  const provider = getProvider('giantbomb')
+  const credentials = MOCK_CREDENTIALS.giantbomb
+
+  before(async () => {
+    server = await startMockServer()
+  })
+  after(() => server.close())
+  beforeEach(() => server.reset())
+
+  test('filters games by name and platform', async () => {
+    const result = await resolveWithChain([{ provider, credentials }], query)
+
+    assert.equal(result.match?.candidate.id, 20462)
+    assert.equal(result.match?.candidate.releaseDate, '2007-09-25')
+    assert.equal(
+      result.match?.imageUrl,
+      `${UPLOADS}/original/0/3699/2883946-halo3.jpg`,
+    )
+    assert.equal(
+      result.match?.candidate.thumbnailUrl,
+      `${UPLOADS}/scale_small/0/3699/2883946-halo3.jpg`,
+    )
+
+    const [request] = server.requestsTo('giantbomb')
+    assert.equal(request.query.get('filter'), 'name:Halo 3,platforms:20')
+    assert.equal(request.headers['user-agent'], 'game-cover-resolver')
+    // The search already has the image, there is no second request
+    assert.equal(server.requestsTo('giantbomb').length, 1)
+  })
+
+  test('uses the chosen image size', async () => {
+    const [candidate] = await provider.search(query, {
+      ...credentials,
+      imageSize: 'medium_url',
+    })
+    assert.equal(
+      candidate.imageUrl,
+      `${UPLOADS}/scale_medium/0/3699/2883946-halo3.jpg`,
+    )
+  })
+
+  test('treats the placeholder image as no image', async () => {
+    const candidates = await provider.search(
+      { title: 'Halo 3', systemName: 'Commodore 65' },
+      credentials,
+    )
+
+    assert.deepEqual(
+      candidates.map((candidate) => [candidate.id, candidate.imageUrl]),
+      [
+        [20462, `${UPLOADS}/original/0/3699/2883946-halo3.jpg`],
+        [39810, undefined],
+        [52640, undefined],
+      ],
+    )
+    assert.equal(
+      server.requestsTo('giantbomb')[0].query.get('filter'),
+      'name:Halo 3',
+    )
+  })
+
+  test('maps the platforms to Giant Bomb IDs', () => {
+    assert.deepEqual(getPlatformIds('giantbomb', 'Xbox 360'), [20])
+    assert.deepEqual(getPlatformIds('giantbomb', 'Mega Drive'), [6])
+  })
+
+  test('rejects a bad API key', async () => {
+    await assert.rejects(
+      provider.search(query, { apiKey: 'wrong' }),
+      (error) =>
+        error instanceof ProviderError &&
+        error.status === 401 &&
+        error.message === 'Giant Bomb API error: 401',
+    )
+  })
+
+  test('reports errors sent with a 200 response', async () => {
+    for (let i = 0; i < GIANTBOMB_HOURLY_LIMIT; i++) {
+      await provider.search(query, credentials)
+    }
+
+    await assert.rejects(
+      provider.search(query, credentials),
+      (error) =>
+        error instanceof ProviderError &&
+        error.rateLimited &&
+        error.message ===
+          'Giant Bomb API error: Rate limit exceeded.  Slow down cowboy.',
+    )
+  })
+
+  test('fails without an API key before sending a request', async () => {
+    await assert.rejects(provider.search(query, {}), /requires an API key/)
+    assert.equal(server.requests.length, 0)
+  })
+})
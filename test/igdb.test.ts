@@ -0,0 +1,159 @@
+import { after, before, beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ProviderError, getProvider } from '@/lib/resolver'
+import {
+  createTokenManager,
+  igdbTokens,
+} from '@/lib/resolver/providers/igdb-auth'
+import {
+  MOCK_CREDENTIALS,
+  startMockServer,
+  type MockServer,
+} from './mock-server'
+
+const query = {
+  title: "The Legend of Zelda: Majora's Mask 3D",
+  systemName: 'Nintendo 3DS',
+}
+
+describe('IGDB', () => {
+  let server: MockServer
+  const provider = getProvider('igdb')
+  const credentials = MOCK_CREDENTIALS.igdb
+
+  before(async () => {
+    server = await startMockServer()
+  })
+  after(() => server.close())
+  beforeEach(async () => {
+    server.reset()
+    await igdbTokens.invalidate(credentials.clientId, credentials.clientSecret)
+  })
+
+  test('authenticates with Twitch and maps the covers', async () => {
+    const [candidate] = await provider.search(query, credentials)
+
+    assert.equal(candidate.id, 7346)
+    assert.equal(candidate.releaseDate, '2015-02-13')
+    assert.deepEqual(candidate.platformNames, ['Nintendo 3DS'])
+    assert.equal(
+      candidate.imageUrl,
+      'https://images.igdb.com/igdb/image/upload/t_cover_big/co1xfl.jpg',
+    )
+
+    const [token] = server.requestsTo('twitch')
+    assert.deepEqual(JSON.parse(token.body), {
+      client_id: credentials.clientId,
+      client_secret: credentials.clientSecret,
+      grant_type: 'client_credentials',
+    })
+    const [search] = server.requestsTo('igdb')
+    assert.equal(search.headers['client-id'], credentials.clientId)
+    assert.equal(search.headers.authorization, 'Bearer mock-token-1')
+  })
+
+  test('shares one token between concurrent searches', async () => {
+    await Promise.all([
+      provider.search(query, credentials),
+      provider.search(query, credentials),
+      provider.search(query, credentials),
+    ])
+    await provider.search(query, credentials)
+
+    assert.equal(server.tokensIssued, 1)
+    assert.equal(server.requestsTo('igdb').length, 4)
+  })
+
+  test('gets a new token when IGDB rejects the cached one', async () => {
+    await provider.search(query, credentials)
+    server.revokeTokens()
+
+    const [candidate] = await provider.search(query, credentials)
+
+    assert.equal(candidate.id, 7346)
+    assert.equal(server.tokensIssued, 2)
+    const authorizations = server
+      .requestsTo('igdb')
+      .map((request) => request.headers.authorization)
+    assert.deepEqual(authorizations, [
+      'Bearer mock-token-1',
+      'Bearer mock-token-1',
+      'Bearer mock-token-2',
+    ])
+  })
+
+  test('reports rejected client credentials', async () => {
+    await assert.rejects(
+      provider.search(query, { ...credentials, clientSecret: 'wrong' }),
+      (error) =>
+        error instanceof ProviderError &&
+        error.status === 403 &&
+        error.message === 'IGDB Auth error: 403',
+    )
+    assert.equal(server.requestsTo('igdb').length, 0)
+  })
+
+  test('fails without credentials before sending a request', async () => {
+    await assert.rejects(
+      provider.search(query, { clientId: credentials.clientId }),
+      /requires both Client ID and Client Secret/,
+    )
+    assert.equal(server.requests.length, 0)
+  })
+})
+
+describe('createTokenManager', () => {
+  test('refreshes tokens a minute before they expire', async () => {
+    let now = 0
+    let issued = 0
+    const tokens = createTokenManager(
+      async () => ({
+        access_token: `token-${++issued}`,
+        expires_in: 3600,
+        token_type: 'bearer',
+      }),
+      () => now,
+    )
+
+    assert.equal(await tokens.getToken('client', 'secret'), 'token-1')
+    now = 3600_000 - 60_001
+    assert.equal(await tokens.getToken('client', 'secret'), 'token-1')
+    now = 3600_000 - 60_000
+    assert.equal(await tokens.getToken('client', 'secret'), 'token-2')
+  })
+
+  test('keeps a fresh token when a stale one is invalidated', async () => {
+    let issued = 0
+    const tokens = createTokenManager(async () => ({
+      access_token: `token-${++issued}`,
+      expires_in: 3600,
+      token_type: 'bearer',
+    }))
+
+    const stale = await tokens.getToken('client', 'secret')
+    await tokens.invalidate('client', 'secret', stale)
+    const fresh = await tokens.getToken('client', 'secret')
+    await tokens.invalidate('client', 'secret', stale)
+
+    assert.equal(await tokens.getToken('client', 'secret'), fresh)
+    assert.equal(issued, 2)
+  })
+
+  test('requests a token of its own for another secret', async () => {
+    const secrets: string[] = []
+    const tokens = createTokenManager(async (_clientId, clientSecret) => {
+      secrets.push(clientSecret)
+      if (clientSecret !== 'right') {
+        throw new ProviderError('IGDB Auth error: 403', 403)
+      }
+      return { access_token: 'token', expires_in: 3600, token_type: 'bearer' }
+    })
+
+    assert.equal(await tokens.getToken('shared-client', 'right'), 'token')
+    await assert.rejects(
+      tokens.getToken('shared-client', 'WRONG'),
+      (error) => error instanceof ProviderError && error.status === 403,
+    )
+    assert.deepEqual(secrets, ['right', 'WRONG'])
+  })
+})
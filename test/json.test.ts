@@ -0,0 +1,112 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  getPath,
+  parseGameJson,
+  setPath,
+  writeGameJson,
+} from '@/lib/formats/json'
+
+const mapping = {
+  title: 'info.name',
+  system: 'platform.short',
+  image: 'media.cover.url',
+}
+
+describe('getPath and setPath', () => {
+  test('read nested values', () => {
+    const record = { platform: { short: 'snes', ids: [1, 2] } }
+    assert.equal(getPath(record, 'platform.short'), 'snes')
+    assert.equal(getPath(record, ' platform . ids .1'), 2)
+    assert.equal(getPath(record, 'platform.short.length.x'), undefined)
+    assert.equal(getPath(record, 'missing.short'), undefined)
+  })
+
+  test('set nested values on a copy, creating objects as needed', () => {
+    const record = { media: { screenshot: 'a.png' }, title: 'Doom' }
+    const updated = setPath(record, 'media.cover.url', 'b.png')
+
+    assert.deepEqual(updated, {
+      media: { screenshot: 'a.png', cover: { url: 'b.png' } },
+      title: 'Doom',
+    })
+    assert.deepEqual(record, { media: { screenshot: 'a.png' }, title: 'Doom' })
+    // A scalar in the way is replaced by an object
+    assert.deepEqual(setPath({ media: 'none' }, 'media.cover', 'c.png'), {
+      media: { cover: 'c.png' },
+    })
+  })
+
+  test('remove the key for an undefined value', () => {
+    assert.deepEqual(setPath({ a: { b: 1, c: 2 } }, 'a.b', undefined), {
+      a: { c: 2 },
+    })
+    // Missing parents are not created just to hold nothing
+    assert.deepEqual(setPath({ title: 'Doom' }, 'a.b', undefined), {
+      title: 'Doom',
+    })
+  })
+})
+
+describe('game JSON', () => {
+  const text = JSON.stringify([
+    {
+      info: { name: 'Chrono Trigger ' },
+      platform: { short: 'snes' },
+      year: 1995,
+      crc: '2D206BF7',
+    },
+    {
+      info: { name: 'Doom' },
+      platform: { short: 'pc' },
+      media: { cover: { url: 'old.png' } },
+    },
+  ])
+
+  test('reads the mapped fields', () => {
+    const { games } = parseGameJson(text, mapping)
+
+    assert.deepEqual(games, [
+      {
+        title: 'Chrono Trigger',
+        systemName: 'snes',
+        year: 1995,
+        imageUrl: undefined,
+        crc: '2D206BF7',
+      },
+      {
+        title: 'Doom',
+        systemName: 'pc',
+        year: undefined,
+        imageUrl: 'old.png',
+      },
+    ])
+  })
+
+  test('writes the images back at the mapped path', () => {
+    const { games, records } = parseGameJson(text, mapping)
+    const written = writeGameJson(
+      records,
+      [{ ...games[0], imageUrl: 'trigger.png' }, games[1]],
+      mapping,
+    )
+
+    assert.deepEqual(written[0], {
+      ...records[0],
+      media: { cover: { url: 'trigger.png' } },
+    })
+    assert.deepEqual(written[1], records[1])
+    assert.equal(
+      parseGameJson(JSON.stringify(written), mapping).games[0].imageUrl,
+      'trigger.png',
+    )
+  })
+
+  test('names the mapped fields a game is missing', () => {
+    assert.throws(
+      () => parseGameJson('[{"info": {"name": "Doom"}}]', mapping),
+      /'info\.name' and 'platform\.short'/,
+    )
+    assert.throws(() => parseGameJson('{}'), /array of games/)
+  })
+})
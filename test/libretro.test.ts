@@ -0,0 +1,141 @@
+import { after, before, beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  createMemoryCache,
+  getProvider,
+  resolveWithChain,
+} from '@/lib/resolver'
+import { thumbnailName } from '@/lib/resolver/providers/libretro'
+import { startMockServer, type MockServer } from './mock-server'
+
+describe('thumbnailName', () => {
+  test('replaces the characters RetroArch replaces', () => {
+    assert.equal(thumbnailName('Q*bert'), 'Q_bert')
+    assert.equal(
+      thumbnailName('Tom & Jerry: Frantic <Antics>?'),
+      'Tom _ Jerry_ Frantic _Antics__',
+    )
+    assert.equal(thumbnailName('AC/DC \\ `Live` | 1'), 'AC_DC _ _Live_ _ 1')
+    assert.equal(thumbnailName("Yoshi's Island (USA)"), "Yoshi's Island (USA)")
+  })
+})
+
+describe('Libretro thumbnails', () => {
+  let server: MockServer
+  const provider = getProvider('libretro')
+
+  before(async () => {
+    server = await startMockServer()
+  })
+  after(() => server.close())
+  beforeEach(() => server.reset())
+
+  const paths = () =>
+    server.requestsTo('libretro').map((request) => {
+      assert.equal(request.method, 'HEAD')
+      return decodeURIComponent(request.path)
+    })
+
+  test('tries region tags after the plain title', async () => {
+    const result = await resolveWithChain([{ provider, credentials: {} }], {
+      title: 'Super Mario World',
+      systemName: 'snes',
+    })
+
+    assert.equal(
+      result.match?.imageUrl,
+      `${server.url}/libretro/Nintendo%20-%20Super%20Nintendo%20Entertainment%20System/Named_Boxarts/Super%20Mario%20World%20(USA).png`,
+    )
+    assert.equal(result.match?.candidate.title, 'Super Mario World')
+    assert.deepEqual(paths(), [
+      '/Nintendo - Super Nintendo Entertainment System/Named_Boxarts/Super Mario World.png',
+      '/Nintendo - Super Nintendo Entertainment System/Named_Boxarts/Super Mario World (USA).png',
+    ])
+  })
+
+  test('tries the No-Intro form of leading articles', async () => {
+    const [candidate] = await provider.search(
+      { title: 'The Legend of Zelda', systemName: 'NES' },
+      { region: 'europe' },
+    )
+
+    assert.match(
+      candidate.imageUrl || '',
+      /Legend%20of%20Zelda%2C%20The%20\(USA\)\.png$/,
+    )
+    // Every region of the plain title is tried first
+    assert.equal(paths().length, 12)
+  })
+
+  test('sanitizes the title into a file name', async () => {
+    const [candidate] = await provider.search(
+      { title: 'Q*bert', systemName: 'nes' },
+      {},
+    )
+    assert.match(candidate.imageUrl || '', /Q_bert%20\(USA\)\.png$/)
+  })
+
+  test('looks up the ROM file name first', async () => {
+    const [candidate] = await provider.search(
+      {
+        title: 'Sonic the Hedgehog',
+        systemName: 'Sega - Mega Drive - Genesis',
+        romName: 'Sonic The Hedgehog (USA, Europe) (Rev 1).md',
+      },
+      {},
+    )
+
+    assert.equal(candidate.id, 1)
+    assert.deepEqual(paths(), [
+      '/Sega - Mega Drive - Genesis/Named_Boxarts/Sonic The Hedgehog (USA, Europe) (Rev 1).png',
+    ])
+  })
+
+  test('caches each ROM file separately', async () => {
+    const cache = createMemoryCache()
+    const chain = [{ provider, credentials: {} }]
+    const sonic = {
+      title: 'Sonic the Hedgehog',
+      systemName: 'Sega - Mega Drive - Genesis',
+    }
+
+    const usa = await resolveWithChain(
+      chain,
+      { ...sonic, romName: 'Sonic The Hedgehog (USA, Europe).md' },
+      { cache },
+    )
+    const japan = await resolveWithChain(
+      chain,
+      { ...sonic, romName: 'Sonic The Hedgehog (Japan, Korea).md' },
+      { cache },
+    )
+
+    assert.equal(japan.cached, false)
+    assert.notEqual(japan.match?.imageUrl, usa.match?.imageUrl)
+    assert.match(japan.match?.imageUrl || '', /Japan%2C%20Korea/)
+  })
+
+  test('uses the folder of the chosen artwork', async () => {
+    const [candidate] = await provider.search(
+      { title: 'Super Mario World (USA)', systemName: 'snes' },
+      { artType: 'title' },
+    )
+    assert.match(candidate.imageUrl || '', /\/Named_Titles\//)
+  })
+
+  test('skips systems without thumbnails', async () => {
+    const missing = await provider.search(
+      { title: 'Super Mario World 3', systemName: 'snes' },
+      {},
+    )
+    const unknown = await provider.search(
+      { title: 'Halo 3', systemName: 'Xbox 360' },
+      {},
+    )
+
+    assert.deepEqual(missing, [])
+    assert.deepEqual(unknown, [])
+    // Only the SNES lookup had a folder to check
+    assert.equal(paths().length, 7)
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  DEFAULT_MIN_SCORE,
+  normalizeTitle,
+  rankCandidates,
+  titleSimilarity,
+  type CoverCandidate,
+} from '@/lib/resolver'
+
+function candidate(
+  id: number,
+  title: string,
+  platformIds: number[] = [],
+  releaseDate?: string,
+): CoverCandidate {
+  return {
+    providerId: 'rawg',
+    id,
+    title,
+    platformIds,
+    platformNames: [],
+    releaseDate,
+  }
+}
+
+describe('normalizeTitle', () => {
+  test('drops punctuation, apostrophes and case', () => {
+    assert.equal(normalizeTitle("Luigi's Mansion"), 'luigis mansion')
+    assert.equal(
+      normalizeTitle('The Legend of Zelda: Majora’s Mask'),
+      'legend of zelda majoras mask',
+    )
+  })
+
+  test('strips diacritics and trademark signs', () => {
+    assert.equal(normalizeTitle('Pokémon Red'), 'pokemon red')
+    assert.equal(normalizeTitle('Tetris™'), 'tetris')
+  })
+
+  test('converts roman numerals and ampersands', () => {
+    assert.equal(normalizeTitle('Final Fantasy VII'), 'final fantasy 7')
+    assert.equal(normalizeTitle('Sonic & Knuckles'), 'sonic and knuckles')
+  })
+
+  test('keeps an X that is part of the name', () => {
+    assert.equal(normalizeTitle('Mega Man X'), 'mega man x')
+    assert.ok(titleSimilarity('Mega Man X', 'Mega Man 10') < 0.75)
+  })
+
+  test('drops leading and trailing articles', () => {
+    assert.equal(normalizeTitle('Legend of Zelda, The'), 'legend of zelda')
+    assert.equal(normalizeTitle('The Legend of Zelda'), 'legend of zelda')
+    // A lone article is the whole title
+    assert.equal(normalizeTitle('The'), 'the')
+  })
+})
+
+describe('titleSimilarity', () => {
+  test('treats equivalent titles as identical', () => {
+    assert.equal(titleSimilarity('Pokemon Red', 'Pokémon Red'), 1)
+    assert.equal(titleSimilarity('Final Fantasy 7', 'Final Fantasy VII'), 1)
+  })
+
+  test('penalizes a different entry in a series', () => {
+    const sequel = titleSimilarity("Luigi's Mansion", "Luigi's Mansion 3")
+    const typo = titleSimilarity("Luigi's Mansion", 'Luigis Manson')
+    assert.ok(sequel < 0.6, `sequel scored ${sequel}`)
+    assert.ok(typo > sequel, `typo scored ${typo}, sequel ${sequel}`)
+  })
+
+  test('scores unrelated titles low', () => {
+    assert.ok(titleSimilarity('Super Mario World', 'Halo 3') < 0.2)
+  })
+})
+
+describe('rankCandidates', () => {
+  test('puts the exact title first', () => {
+    const ranked = rankCandidates(
+      [
+        candidate(1, "Super Mario World 2: Yoshi's Island"),
+        candidate(2, 'Super Mario World'),
+        candidate(3, 'Super Mario 3D World'),
+      ],
+      { title: 'Super Mario World', systemName: 'snes' },
+      [],
+    )
+    assert.deepEqual(
+      ranked.map((scored) => scored.candidate.id),
+      [2, 3, 1],
+    )
+    assert.equal(ranked[0].titleScore, 1)
+  })
+
+  test('breaks title ties on platform', () => {
+    const ranked = rankCandidates(
+      [
+        candidate(53551, 'Sonic the Hedgehog', [16, 14]),
+        candidate(52977, 'Sonic the Hedgehog', [167]),
+      ],
+      { title: 'Sonic the Hedgehog', systemName: 'genesis' },
+      [167],
+    )
+    assert.equal(ranked[0].candidate.id, 52977)
+    assert.ok(ranked[0].score > ranked[1].score)
+  })
+
+  test('rejects the same title on another platform', () => {
+    const [scored] = rankCandidates(
+      [candidate(1, 'Animal Crossing', [7], '2020-03-20')],
+      { title: 'Animal Crossing', systemName: 'gamecube', year: 2020 },
+      [105],
+    )
+    assert.ok(scored.score < DEFAULT_MIN_SCORE, `scored ${scored.score}`)
+  })
+
+  test('breaks title ties on release year', () => {
+    const ranked = rankCandidates(
+      [
+        candidate(1, 'Tomb Raider', [], '2013-03-05'),
+        candidate(2, 'Tomb Raider', [], '1996-10-25'),
+      ],
+      { title: 'Tomb Raider', systemName: '', year: 1996 },
+      [],
+    )
+    assert.equal(ranked[0].candidate.id, 2)
+  })
+
+  test('keeps the provider order for equal scores', () => {
+    const ranked = rankCandidates(
+      [candidate(1, 'Tetris'), candidate(2, 'Tetris')],
+      { title: 'Tetris', systemName: '' },
+      [],
+    )
+    assert.deepEqual(
+      ranked.map((scored) => scored.candidate.id),
+      [1, 2],
+    )
+  })
+})
@@ -0,0 +1,88 @@
+import { after, before, beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ProviderError, getProvider, resolveWithChain } from '@/lib/resolver'
+import {
+  MOCK_CREDENTIALS,
+  startMockServer,
+  type MockServer,
+} from './mock-server'
+
+const COVERS = 'https://cdn.mobygames.com/covers'
+
+const query = { title: 'Chrono Trigger', systemName: 'Super Nintendo' }
+
+describe('MobyGames', () => {
+  let server: MockServer
+  const provider = getProvider('mobygames')
+  const credentials = MOCK_CREDENTIALS.mobygames
+
+  before(async () => {
+    server = await startMockServer()
+  })
+  after(() => server.close())
+  beforeEach(() => server.reset())
+
+  test('takes the front cover of the searched platform', async () => {
+    const result = await resolveWithChain([{ provider, credentials }], query)
+
+    assert.equal(result.match?.candidate.id, 4501)
+    assert.equal(
+      result.match?.imageUrl,
+      `${COVERS}/3390207-chrono-trigger-snes-front-cover.jpg`,
+    )
+    // The release date is the searched platform's
+    assert.equal(result.match?.candidate.releaseDate, '1995-03-11')
+    assert.deepEqual(result.match?.candidate.platformIds, [15, 6, 44])
+
+    const [search, covers] = server.requestsTo('mobygames')
+    assert.equal(search.path, '/games')
+    assert.deepEqual(search.query.getAll('platform'), ['15'])
+    assert.equal(covers.path, '/games/4501/platforms/15/covers')
+  })
+
+  test('prefers the releases of the chosen countries', async () => {
+    const [candidate] = await provider.search(query, credentials)
+
+    const japanese = await provider.resolveArtwork(candidate, {
+      ...credentials,
+      countries: 'japan',
+    })
+    assert.equal(
+      japanese,
+      `${COVERS}/4024460-chrono-trigger-snes-front-cover.jpg`,
+    )
+
+    // No European release, so the first release with the scan is used
+    const european = await provider.resolveArtwork(candidate, {
+      ...credentials,
+      countries: 'europe',
+      scanOf: 'Manual',
+    })
+    assert.equal(european, `${COVERS}/3390210-chrono-trigger-snes-manual.jpg`)
+  })
+
+  test('reports a platform without scans as not found', async () => {
+    const [candidate] = await provider.search(
+      { title: 'Chrono Trigger', systemName: 'PlayStation' },
+      credentials,
+    )
+
+    assert.equal(candidate.platformIds[0], 6)
+    assert.equal(await provider.resolveArtwork(candidate, credentials), '')
+  })
+
+  test('rejects a bad API key', async () => {
+    await assert.rejects(
+      provider.search(query, { apiKey: 'wrong' }),
+      (error) =>
+        error instanceof ProviderError &&
+        error.status === 401 &&
+        error.message === 'MobyGames API error: 401',
+    )
+  })
+
+  test('fails without an API key before sending a request', async () => {
+    await assert.rejects(provider.search(query, {}), /requires an API key/)
+    assert.equal(server.requests.length, 0)
+  })
+})
@@ -0,0 +1,691 @@
+import {
+  createServer,
+  type IncomingHttpHeaders,
+  type IncomingMessage,
+} from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { resetBaseUrls, setBaseUrls } from '@/lib/resolver'
+
+// Stand-in for the provider APIs and Twitch auth. Responses come from the
+// recorded fixtures in test/fixtures, filtered the way the real APIs filter
+// them, so the providers can be tested without a network.
+
+const FIXTURES_DIR = join(__dirname, 'fixtures')
+
+// Credentials the stand-in accepts; anything else is rejected like the real
+// APIs reject a bad key
+export const MOCK_CREDENTIALS = {
+  rawg: { apiKey: 'rawg-test-key' },
+  thegamesdb: { apiKey: 'tgdb-test-key' },
+  igdb: { clientId: 'igdb-test-client', clientSecret: 'igdb-test-secret' },
+  steamgriddb: { apiKey: 'steamgriddb-test-key' },
+  screenscraper: {
+    devId: 'ss-test-dev',
+    devPassword: 'ss-test-dev-password',
+    userId: 'ss-test-user',
+    userPassword: 'ss-test-password',
+  },
+  mobygames: { apiKey: 'moby-test-key' },
+  giantbomb: { apiKey: 'giantbomb-test-key' },
+}
+
+// Requests the ScreenScraper stand-in grants its user per day, counted from
+// the last reset
+export const SCREENSCRAPER_DAILY_QUOTA = 5
+
+// Requests the Giant Bomb stand-in answers per hour, counted from the last
+// reset
+export const GIANTBOMB_HOURLY_LIMIT = 5
+
+const TOKEN_LIFETIME_S = 5_000_000
+
+export interface RecordedRequest {
+  method: string
+  // Path below the API prefix, e.g. "/Games/ByGameName"
+  path: string
+  api: string
+  query: URLSearchParams
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+interface MockResponse {
+  status: number
+  body: unknown
+}
+
+export interface MockServer {
+  url: string
+  // Every request received, in order
+  requests: RecordedRequest[]
+  requestsTo(api: string): RecordedRequest[]
+  // Access tokens handed out by the Twitch stand-in
+  readonly tokensIssued: number
+  // Make IGDB reject every token issued so far, as if they expired early
+  revokeTokens(): void
+  reset(): void
+  close(): Promise<void>
+}
+
+// "Luigi's Mansion" -> "luigi-s-mansion"
+export function fixtureSlug(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+async function loadFixture<T>(api: string, name: string, empty: T): Promise<T> {
+  try {
+    const text = await readFile(join(FIXTURES_DIR, api, `${name}.json`), 'utf8')
+    return JSON.parse(text)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return empty
+    }
+    throw error
+  }
+}
+
+function parseIds(value: string | null | undefined): number[] {
+  return value ? value.split(',').map((id) => Number(id.trim())) : []
+}
+
+function matchesPlatforms(platformIds: number[], filter: number[]): boolean {
+  return filter.length === 0 || platformIds.some((id) => filter.includes(id))
+}
+
+interface RAWGFixture {
+  count: number
+  results: { platforms?: { platform: { id: number } }[] }[]
+}
+
+async function rawg(request: RecordedRequest): Promise<MockResponse> {
+  const key = request.query.get('key')
+  if (key !== null && key !== MOCK_CREDENTIALS.rawg.apiKey) {
+    return { status: 401, body: { error: 'The key parameter is not valid' } }
+  }
+  if (request.path !== '/games') {
+    return { status: 404, body: { detail: 'Not found.' } }
+  }
+
+  const search = request.query.get('search') || ''
+  const fixture = await loadFixture<RAWGFixture>(
+    'rawg',
+    `games-${fixtureSlug(search)}`,
+    { count: 0, results: [] },
+  )
+  const filter = parseIds(request.query.get('platforms'))
+  const results = fixture.results.filter((game) =>
+    matchesPlatforms(
+      (game.platforms || []).map((item) => item.platform.id),
+      filter,
+    ),
+  )
+  return { status: 200, body: { ...fixture, count: results.length, results } }
+}
+
+interface TheGamesDBFixture {
+  data: { count: number; games: { platform: number }[] }
+}
+
+async function theGamesDB(request: RecordedRequest): Promise<MockResponse> {
+  if (request.query.get('apikey') !== MOCK_CREDENTIALS.thegamesdb.apiKey) {
+    return { status: 403, body: { code: 403, status: 'Invalid API key' } }
+  }
+
+  if (request.path === '/Games/ByGameName') {
+    const name = request.query.get('name') || ''
+    const fixture = await loadFixture<TheGamesDBFixture>(
+      'thegamesdb',
+      `bygamename-${fixtureSlug(name)}`,
+      { data: { count: 0, games: [] } },
+    )
+    const filter = parseIds(request.query.get('filter[platform]'))
+    const games = fixture.data.games.filter((game) =>
+      matchesPlatforms([game.platform], filter),
+    )
+    return {
+      status: 200,
+      body: { ...fixture, data: { count: games.length, games } },
+    }
+  }
+
+  if (request.path === '/Games/Images') {
+    const id = request.query.get('games_id') || ''
+    const fixture = await loadFixture('thegamesdb', `images-${id}`, {
+      code: 200,
+      status: 'Success',
+      data: { count: 0, base_url: {}, images: {} },
+    })
+    return { status: 200, body: fixture }
+  }
+
+  return { status: 404, body: { code: 404, status: 'Not Found' } }
+}
+
+interface SteamGridDBFixtureImage {
+  style: string
+  width: number
+  height: number
+  nsfw: boolean
+  humor: boolean
+}
+
+// Filters of the real API: each list matches any of its values, and
+// nsfw/humor take "true", "false" or "any"
+function matchesImageFilters(
+  image: SteamGridDBFixtureImage,
+  query: URLSearchParams,
+): boolean {
+  const list = (name: string) => query.get(name)?.split(',') || []
+  const flag = (name: string, value: boolean) => {
+    const wanted = query.get(name) || 'false'
+    return wanted === 'any' || wanted === String(value)
+  }
+  const styles = list('styles')
+  const dimensions = list('dimensions')
+  return (
+    (styles.length === 0 || styles.includes(image.style)) &&
+    (dimensions.length === 0 ||
+      dimensions.includes(`${image.width}x${image.height}`) ||
+      dimensions.includes(String(image.width))) &&
+    flag('nsfw', image.nsfw) &&
+    flag('humor', image.humor)
+  )
+}
+
+async function steamGridDB(request: RecordedRequest): Promise<MockResponse> {
+  if (
+    request.headers.authorization !==
+    `Bearer ${MOCK_CREDENTIALS.steamgriddb.apiKey}`
+  ) {
+    return { status: 401, body: { success: false, errors: ['Unauthorized'] } }
+  }
+
+  const [, section, ...rest] = request.path.split('/')
+  if (section === 'search' && rest[0] === 'autocomplete') {
+    const term = decodeURIComponent(rest.slice(1).join('/'))
+    const games = await loadFixture(
+      'steamgriddb',
+      `autocomplete-${fixtureSlug(term)}`,
+      [],
+    )
+    return { status: 200, body: { success: true, data: games } }
+  }
+
+  if (['grids', 'heroes', 'logos', 'icons'].includes(section)) {
+    const images = await loadFixture<SteamGridDBFixtureImage[] | null>(
+      'steamgriddb',
+      `${section}-${rest[1]}`,
+      null,
+    )
+    if (!images) {
+      return {
+        status: 404,
+        body: { success: false, errors: ['Game not found'] },
+      }
+    }
+    return {
+      status: 200,
+      body: {
+        success: true,
+        data: images.filter((image) =>
+          matchesImageFilters(image, request.query),
+        ),
+      },
+    }
+  }
+
+  return { status: 404, body: { success: false, errors: ['Not found'] } }
+}
+
+interface ScreenScraperFixtureGame {
+  id?: string
+  systeme?: { id: string }
+}
+
+interface ScreenScraperFixture {
+  response: {
+    jeu?: ScreenScraperFixtureGame
+    jeux?: ScreenScraperFixtureGame[]
+  }
+}
+
+// ScreenScraper answers errors with French plain text
+function screenScraperError(status: number, message: string): MockResponse {
+  return { status, body: message }
+}
+
+async function screenScraper(
+  request: RecordedRequest,
+  requestsToday: number,
+): Promise<MockResponse> {
+  const { query } = request
+  const credentials = MOCK_CREDENTIALS.screenscraper
+  if (
+    query.get('devid') !== credentials.devId ||
+    query.get('devpassword') !== credentials.devPassword ||
+    !query.get('softname')
+  ) {
+    return screenScraperError(
+      401,
+      'Erreur de login : Vérifier vos identifiants développeur !',
+    )
+  }
+  const ssid = query.get('ssid')
+  if (
+    ssid !== null &&
+    (ssid !== credentials.userId ||
+      query.get('sspassword') !== credentials.userPassword)
+  ) {
+    return screenScraperError(
+      401,
+      'Erreur de login : Vérifier vos identifiants utilisateur !',
+    )
+  }
+  if (ssid && requestsToday > SCREENSCRAPER_DAILY_QUOTA) {
+    return screenScraperError(
+      430,
+      "Votre quota de scrape est dépassé pour aujourd'hui !",
+    )
+  }
+
+  // Only requests made with a user account report its limits
+  const ssuser = ssid
+    ? {
+        id: ssid,
+        maxthreads: '2',
+        requeststoday: String(requestsToday),
+        maxrequestsperday: String(SCREENSCRAPER_DAILY_QUOTA),
+        requestskotoday: '0',
+        maxrequestskoperday: '2000',
+      }
+    : undefined
+  const systemId = query.get('systemeid')
+  const onSystem = (game: ScreenScraperFixtureGame) =>
+    !systemId || game.systeme?.id === systemId
+
+  if (request.path === '/jeuInfos.php') {
+    const hash = query.get('sha1') || query.get('md5') || query.get('crc')
+    const romName = query.get('romnom')
+    const fixture = await loadFixture<ScreenScraperFixture | null>(
+      'screenscraper',
+      hash
+        ? `jeuinfos-${hash.toLowerCase()}`
+        : `jeuinfos-${fixtureSlug(romName || '')}`,
+      null,
+    )
+    const game = fixture?.response.jeu
+    if (!game || !onSystem(game)) {
+      return screenScraperError(404, 'Erreur : Rom/Iso/Dossier non trouvée ! ')
+    }
+    return {
+      status: 200,
+      body: { ...fixture, response: { ...fixture.response, ssuser } },
+    }
+  }
+
+  if (request.path === '/jeuRecherche.php') {
+    const fixture = await loadFixture<ScreenScraperFixture>(
+      'screenscraper',
+      `jeurecherche-${fixtureSlug(query.get('recherche') || '')}`,
+      { response: { jeux: [] } },
+    )
+    const games = (fixture.response.jeux || []).filter(onSystem)
+    return {
+      status: 200,
+      body: {
+        ...fixture,
+        // The real API lists one empty game when nothing matches
+        response: { jeux: games.length > 0 ? games : [{}], ssuser },
+      },
+    }
+  }
+
+  if (request.path === '/mediaJeu.php') {
+    return query.get('jeuid') === '3'
+      ? { status: 200, body: 'PNG' }
+      : screenScraperError(404, 'Erreur : Media non trouvé')
+  }
+
+  return screenScraperError(404, 'Erreur : API inconnue')
+}
+
+// Thumbnail file names per folder, e.g. { "Named_Boxarts": ["... .png"] }
+type LibretroFixture = Record<string, string[]>
+
+// A static file server: a file is there or answers 404
+async function libretro(request: RecordedRequest): Promise<MockResponse> {
+  const [, system, folder, file] = request.path
+    .split('/')
+    .map(decodeURIComponent)
+  const fixture = await loadFixture<LibretroFixture>(
+    'libretro',
+    fixtureSlug(system || ''),
+    {},
+  )
+  return fixture[folder]?.includes(file)
+    ? { status: 200, body: '' }
+    : { status: 404, body: 'Not Found' }
+}
+
+interface MobyGamesFixture {
+  games: { platforms: { platform_id: number }[] }[]
+}
+
+async function mobyGames(request: RecordedRequest): Promise<MockResponse> {
+  if (request.query.get('api_key') !== MOCK_CREDENTIALS.mobygames.apiKey) {
+    return {
+      status: 401,
+      body: { code: 401, error: 'Unauthorized', message: 'Invalid API key' },
+    }
+  }
+
+  if (request.path === '/games') {
+    const title = request.query.get('title') || ''
+    const fixture = await loadFixture<MobyGamesFixture>(
+      'mobygames',
+      `games-${fixtureSlug(title)}`,
+      { games: [] },
+    )
+    // Repeated platform parameters match any of them
+    const filter = request.query.getAll('platform').map(Number)
+    const games = fixture.games.filter((game) =>
+      matchesPlatforms(
+        game.platforms.map((platform) => platform.platform_id),
+        filter,
+      ),
+    )
+    return { status: 200, body: { games } }
+  }
+
+  const covers = request.path.match(
+    /^\/games\/(\d+)\/platforms\/(\d+)\/covers$/,
+  )
+  if (covers) {
+    const fixture = await loadFixture(
+      'mobygames',
+      `covers-${covers[1]}-${covers[2]}`,
+      null,
+    )
+    if (fixture) {
+      return { status: 200, body: fixture }
+    }
+  }
+
+  return {
+    status: 404,
+    body: { code: 404, error: 'Not Found', message: 'No such game' },
+  }
+}
+
+interface GiantBombFixture {
+  results: { platforms: { id: number }[] | null }[]
+}
+
+async function giantBomb(
+  request: RecordedRequest,
+  requestsThisHour: number,
+): Promise<MockResponse> {
+  const error = (status: number, status_code: number, message: string) => ({
+    status,
+    body: {
+      error: message,
+      limit: 0,
+      offset: 0,
+      number_of_page_results: 0,
+      number_of_total_results: 0,
+      status_code,
+      results: [],
+    },
+  })
+  if (request.query.get('api_key') !== MOCK_CREDENTIALS.giantbomb.apiKey) {
+    return error(401, 100, 'Invalid API Key')
+  }
+  // Generic user agents, like the default of fetch, are blocked
+  const agent = request.headers['user-agent']
+  if (!agent || agent === 'node') {
+    return error(403, 100, 'Wrong User-Agent')
+  }
+  if (request.path !== '/games/') {
+    return error(404, 101, 'Object Not Found')
+  }
+  // Giant Bomb reports going over its limit in the body of a 200
+  if (requestsThisHour > GIANTBOMB_HOURLY_LIMIT) {
+    return error(200, 107, 'Rate limit exceeded.  Slow down cowboy.')
+  }
+
+  // "name:Halo,platforms:20|32"
+  const filters = new Map(
+    (request.query.get('filter') || '').split(',').map((filter) => {
+      const [name, ...value] = filter.split(':')
+      return [name, value.join(':')] as const
+    }),
+  )
+  const fixture = await loadFixture<GiantBombFixture>(
+    'giantbomb',
+    `games-${fixtureSlug(filters.get('name') || '')}`,
+    { results: [] },
+  )
+  const platforms = (filters.get('platforms') || '')
+    .split('|')
+    .filter(Boolean)
+    .map(Number)
+  const results = fixture.results.filter((game) =>
+    matchesPlatforms(
+      (game.platforms || []).map((platform) => platform.id),
+      platforms,
+    ),
+  )
+  return {
+    status: 200,
+    body: {
+      ...fixture,
+      number_of_page_results: results.length,
+      number_of_total_results: results.length,
+      results,
+    },
+  }
+}
+
+interface IGDBFixtureGame {
+  platforms?: { id: number }[]
+}
+
+function createMockServer() {
+  const requests: RecordedRequest[] = []
+  const activeTokens = new Set<string>()
+  let tokensIssued = 0
+
+  async function twitch(request: RecordedRequest): Promise<MockResponse> {
+    if (request.method !== 'POST' || request.path !== '/token') {
+      return { status: 404, body: { status: 404, message: 'Not Found' } }
+    }
+    const { client_id, client_secret } = JSON.parse(request.body || '{}')
+    if (client_id !== MOCK_CREDENTIALS.igdb.clientId) {
+      return { status: 400, body: { status: 400, message: 'invalid client' } }
+    }
+    if (client_secret !== MOCK_CREDENTIALS.igdb.clientSecret) {
+      return {
+        status: 403,
+        body: { status: 403, message: 'invalid client secret' },
+      }
+    }
+    const accessToken = `mock-token-${++tokensIssued}`
+    activeTokens.add(accessToken)
+    return {
+      status: 200,
+      body: {
+        access_token: accessToken,
+        expires_in: TOKEN_LIFETIME_S,
+        token_type: 'bearer',
+      },
+    }
+  }
+
+  async function igdb(request: RecordedRequest): Promise<MockResponse> {
+    const token = request.headers.authorization?.replace(/^Bearer /, '')
+    if (
+      request.headers['client-id'] !== MOCK_CREDENTIALS.igdb.clientId ||
+      !token ||
+      !activeTokens.has(token)
+    ) {
+      return { status: 401, body: { message: 'Authorization Failure' } }
+    }
+    if (request.method !== 'POST' || request.path !== '/games') {
+      return { status: 404, body: { message: 'Not Found' } }
+    }
+
+    const search = request.body.match(/search "(.*?)";/)?.[1] || ''
+    const games = await loadFixture<IGDBFixtureGame[]>(
+      'igdb',
+      `games-${fixtureSlug(search)}`,
+      [],
+    )
+    const filter = parseIds(
+      request.body.match(/where platforms = \(([^)]*)\);/)?.[1],
+    )
+    return {
+      status: 200,
+      body: games.filter((game) =>
+        matchesPlatforms(
+          (game.platforms || []).map((platform) => platform.id),
+          filter,
+        ),
+      ),
+    }
+  }
+
+  const apis: Record<
+    string,
+    (request: RecordedRequest) => Promise<MockResponse>
+  > = {
+    rawg,
+    thegamesdb: theGamesDB,
+    igdb,
+    twitch,
+    steamgriddb: steamGridDB,
+    libretro,
+    mobygames: mobyGames,
+    giantbomb: (request) =>
+      giantBomb(
+        request,
+        requests.filter((recorded) => recorded.api === 'giantbomb').length,
+      ),
+    screenscraper: (request) =>
+      screenScraper(
+        request,
+        requests.filter((recorded) => recorded.api === 'screenscraper').length,
+      ),
+  }
+
+  const readBody = async (message: IncomingMessage) => {
+    const chunks: Buffer[] = []
+    for await (const chunk of message) {
+      chunks.push(chunk as Buffer)
+    }
+    return Buffer.concat(chunks).toString('utf8')
+  }
+
+  const server = createServer(async (message, response) => {
+    const url = new URL(message.url || '/', 'http://localhost')
+    const [, api, ...rest] = url.pathname.split('/')
+    const request: RecordedRequest = {
+      method: message.method || 'GET',
+      api,
+      path: `/${rest.join('/')}`,
+      query: url.searchParams,
+      headers: message.headers,
+      body: await readBody(message),
+    }
+    requests.push(request)
+
+    const handler = apis[api]
+    const { status, body } = handler
+      ? await handler(request)
+      : { status: 404, body: { error: `Unknown API "${api}"` } }
+    response.writeHead(status, { 'Content-Type': 'application/json' })
+    response.end(JSON.stringify(body))
+  })
+
+  return {
+    server,
+    requests,
+    activeTokens,
+    get tokensIssued() {
+      return tokensIssued
+    },
+    resetTokens() {
+      activeTokens.clear()
+      tokensIssued = 0
+    },
+  }
+}
+
+// Fail loudly instead of reaching a real API when a base URL was missed
+function blockNetwork(): () => void {
+  const realFetch = globalThis.fetch
+  globalThis.fetch = (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString())
+    if (url.hostname !== '127.0.0.1') {
+      return Promise.reject(
+        new Error(`Tests must not reach the network: ${url.href}`),
+      )
+    }
+    return realFetch(input, init)
+  }
+  return () => {
+    globalThis.fetch = realFetch
+  }
+}
+
+// Start the stand-in on a free port and point every provider at it
+export async function startMockServer(): Promise<MockServer> {
+  const mock = createMockServer()
+  await new Promise<void>((resolve) =>
+    mock.server.listen(0, '127.0.0.1', resolve),
+  )
+  const { port } = mock.server.address() as AddressInfo
+  const url = `http://127.0.0.1:${port}`
+
+  setBaseUrls({
+    rawg: `${url}/rawg`,
+    thegamesdb: `${url}/thegamesdb`,
+    igdb: `${url}/igdb`,
+    'twitch-auth': `${url}/twitch`,
+    steamgriddb: `${url}/steamgriddb`,
+    screenscraper: `${url}/screenscraper`,
+    libretro: `${url}/libretro`,
+    mobygames: `${url}/mobygames`,
+    giantbomb: `${url}/giantbomb`,
+  })
+  const restoreFetch = blockNetwork()
+
+  return {
+    url,
+    requests: mock.requests,
+    requestsTo: (api) => mock.requests.filter((request) => request.api === api),
+    get tokensIssued() {
+      return mock.tokensIssued
+    },
+    revokeTokens: () => mock.activeTokens.clear(),
+    reset() {
+      mock.requests.length = 0
+      mock.resetTokens()
+    },
+    async close() {
+      restoreFetch()
+      resetBaseUrls()
+      // fetch keeps connections alive, which would hold close() open
+      mock.server.closeAllConnections()
+      await new Promise<void>((resolve, reject) =>
+        mock.server.close((error) => (error ? reject(error) : resolve())),
+      )
+    },
+  }
+}
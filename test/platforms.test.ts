@@ -0,0 +1,106 @@
+import { after, before, beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  findPlatform,
+  findUnknownSystems,
+  getPlatformIds,
+  getProvider,
+  resolveWithChain,
+} from '@/lib/resolver'
+import {
+  MOCK_CREDENTIALS,
+  startMockServer,
+  type MockServer,
+} from './mock-server'
+
+describe('findPlatform', () => {
+  test('matches ids, names, aliases and libretro names', () => {
+    for (const name of [
+      'genesis',
+      'Sega Genesis',
+      'Mega Drive',
+      'sega mega-drive',
+      'Sega - Mega Drive - Genesis',
+    ]) {
+      assert.equal(findPlatform(name)?.id, 'genesis', name)
+    }
+  })
+
+  test('reports systems without a platform once, in order', () => {
+    assert.deepEqual(
+      findUnknownSystems(['snes', 'Commodore 65', 'gc', 'Commodore 65']),
+      ['Commodore 65'],
+    )
+  })
+
+  test('maps each provider to its own platform ids', () => {
+    assert.deepEqual(getPlatformIds('rawg', 'Nintendo GameCube'), [105])
+    assert.deepEqual(getPlatformIds('thegamesdb', 'Nintendo GameCube'), [2])
+    assert.deepEqual(getPlatformIds('igdb', '3DS'), [37, 137])
+    assert.deepEqual(getPlatformIds('rawg', 'Commodore 65'), [])
+  })
+})
+
+describe('platform filtering', () => {
+  let server: MockServer
+
+  before(async () => {
+    server = await startMockServer()
+  })
+  after(() => server.close())
+  beforeEach(() => server.reset())
+
+  const rawg = [
+    { provider: getProvider('rawg'), credentials: MOCK_CREDENTIALS.rawg },
+  ]
+
+  test('sends the platform filter and matches the right release', async () => {
+    const result = await resolveWithChain(rawg, {
+      title: 'Sonic the Hedgehog',
+      systemName: 'Mega Drive',
+    })
+
+    const [request] = server.requestsTo('rawg')
+    assert.equal(request.query.get('platforms'), '167')
+    assert.equal(request.query.get('key'), MOCK_CREDENTIALS.rawg.apiKey)
+    assert.equal(result.match?.candidate.id, 52977)
+    assert.equal(result.match?.candidate.releaseDate, '1991-06-23')
+  })
+
+  test('searches every platform for an unknown system', async () => {
+    const result = await resolveWithChain(rawg, {
+      title: 'Sonic the Hedgehog',
+      systemName: 'Commodore 65',
+    })
+
+    const [request] = server.requestsTo('rawg')
+    assert.equal(request.query.has('platforms'), false)
+    // Both games with the exact title come back, the provider order decides
+    assert.deepEqual(
+      result.candidates
+        .filter((scored) => scored.titleScore === 1)
+        .map((scored) => scored.candidate.id),
+      [53551, 52977],
+    )
+  })
+
+  test('filters TheGamesDB and IGDB searches too', async () => {
+    await resolveWithChain(
+      [
+        {
+          provider: getProvider('thegamesdb'),
+          credentials: MOCK_CREDENTIALS.thegamesdb,
+        },
+        { provider: getProvider('igdb'), credentials: MOCK_CREDENTIALS.igdb },
+      ],
+      // Below any real score, so both providers are tried
+      { title: 'Tetris', systemName: '3DS' },
+      { minScore: 2 },
+    )
+
+    const [tgdb] = server.requestsTo('thegamesdb')
+    assert.equal(tgdb.query.get('filter[platform]'), '4912')
+    const [igdb] = server.requestsTo('igdb')
+    assert.match(igdb.body, /where platforms = \(37,137\);/)
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  parsePlaylist,
+  playlistSystemName,
+  writePlaylist,
+} from '@/lib/formats/retroarch'
+
+const PLAYLIST = JSON.stringify(
+  {
+    version: '1.5',
+    default_core_path: '',
+    items: [
+      {
+        path: '/roms/gc/Metroid Prime (USA).iso',
+        label: 'Metroid Prime (USA) (Rev 2)',
+        core_path: 'DETECT',
+        core_name: 'DETECT',
+        crc32: '3D5E5D18|crc',
+        db_name: 'Nintendo - GameCube.lpl',
+      },
+      {
+        path: '/roms/misc/Homebrew.zip#Homebrew.gba',
+        label: '',
+        crc32: '00000000|crc',
+        db_name: 'DETECT',
+      },
+    ],
+  },
+  null,
+  2,
+)
+
+describe('RetroArch playlists', () => {
+  test('maps the database of each item to its system', () => {
+    const { games } = parsePlaylist(PLAYLIST, 'Favorites')
+
+    assert.deepEqual(games, [
+      {
+        title: 'Metroid Prime',
+        systemName: 'Nintendo - GameCube',
+        imageUrl: undefined,
+        crc: '3D5E5D18',
+        romName: 'Metroid Prime (USA).iso',
+      },
+      {
+        // No label, no database and no CRC the scanner computed
+        title: 'Homebrew',
+        systemName: 'Favorites',
+        imageUrl: undefined,
+        crc: undefined,
+        romName: 'Homebrew.zip',
+      },
+    ])
+  })
+
+  test('names the system after the playlist file', () => {
+    assert.equal(
+      playlistSystemName('C:\\RetroArch\\playlists\\Sega - Mega Drive.lpl'),
+      'Sega - Mega Drive',
+    )
+  })
+
+  test('needs a system for items without a database', () => {
+    assert.throws(() => parsePlaylist(PLAYLIST), /Cannot tell the system/)
+  })
+
+  test('writes the images back and keeps every other field', () => {
+    const { games, playlist } = parsePlaylist(PLAYLIST, 'Favorites')
+    const output = writePlaylist(playlist, [
+      { ...games[0], imageUrl: 'https://example.com/prime.png' },
+      games[1],
+    ])
+
+    const written = JSON.parse(output)
+    assert.deepEqual(written.items[0], {
+      ...JSON.parse(PLAYLIST).items[0],
+      imageUrl: 'https://example.com/prime.png',
+    })
+    assert.deepEqual(written.items[1], JSON.parse(PLAYLIST).items[1])
+    assert.equal(written.default_core_path, '')
+    // Read back on the next run
+    assert.equal(
+      parsePlaylist(output, 'Favorites').games[0].imageUrl,
+      'https://example.com/prime.png',
+    )
+  })
+
+  test('rejects the old six-line format', () => {
+    assert.throws(
+      () => parsePlaylist('/roms/game.zip\nGame\nDETECT\nDETECT\n0|crc\n'),
+      /old 6-line format/,
+    )
+  })
+})
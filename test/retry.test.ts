@@ -0,0 +1,114 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ProviderError } from '@/lib/resolver'
+import { isRetryable, retryDelay, withRetry } from '@/lib/resolver/retry'
+
+describe('isRetryable', () => {
+  test('retries rate limiting, server and network errors', () => {
+    assert.equal(isRetryable(new ProviderError('429', 429)), true)
+    assert.equal(isRetryable(new ProviderError('503', 503)), true)
+    assert.equal(isRetryable(new TypeError('fetch failed')), true)
+  })
+
+  test('fails right away on client errors', () => {
+    assert.equal(isRetryable(new ProviderError('401', 401)), false)
+    assert.equal(isRetryable(new ProviderError('404', 404)), false)
+    // ScreenScraper's daily quota only resets the next day
+    assert.equal(isRetryable(new ProviderError('430', 430)), false)
+    assert.equal(isRetryable(new Error('requires an API key')), false)
+  })
+})
+
+describe('retryDelay', () => {
+  const options = { baseDelayMs: 500, maxDelayMs: 4_000 }
+  const delay = (retry: number, error: unknown, random: number) =>
+    retryDelay(retry, error, options, () => random)
+
+  test('picks a random delay up to the exponential backoff', () => {
+    const error = new ProviderError('503', 503)
+    assert.equal(delay(0, error, 1), 500)
+    assert.equal(delay(2, error, 1), 2_000)
+    assert.equal(delay(2, error, 0.25), 500)
+    assert.equal(delay(2, error, 0), 0)
+    // Capped at the maximum delay
+    assert.equal(delay(6, error, 1), 4_000)
+  })
+
+  test('waits at least as long as Retry-After asks', () => {
+    const error = new ProviderError('429', 429, 3_000)
+    assert.equal(delay(0, error, 0), 3_000)
+    assert.equal(delay(4, error, 1), 4_000)
+  })
+})
+
+describe('withRetry', () => {
+  const options = { maxRetries: 3, baseDelayMs: 0 }
+
+  test('retries until the task succeeds', async () => {
+    const delays: number[] = []
+    let attempts = 0
+
+    const result = await withRetry(
+      async () => {
+        if (++attempts < 3) {
+          throw new ProviderError('503', 503)
+        }
+        return 'ok'
+      },
+      options,
+      (_error, delayMs) => delays.push(delayMs),
+    )
+
+    assert.equal(result, 'ok')
+    assert.equal(attempts, 3)
+    assert.deepEqual(delays, [0, 0])
+  })
+
+  test('gives up after the last retry', async () => {
+    let attempts = 0
+    await assert.rejects(
+      withRetry(async () => {
+        attempts++
+        throw new TypeError('fetch failed')
+      }, options),
+      TypeError,
+    )
+    assert.equal(attempts, 4)
+  })
+
+  test('does not retry a rejected key', async () => {
+    let attempts = 0
+    const onRetry = () => assert.fail('retried a client error')
+
+    await assert.rejects(
+      withRetry(
+        async () => {
+          attempts++
+          throw new ProviderError('RAWG API error: 401', 401)
+        },
+        options,
+        onRetry,
+      ),
+      (error) => error instanceof ProviderError && error.status === 401,
+    )
+    assert.equal(attempts, 1)
+  })
+
+  test('stops waiting when the signal aborts', async () => {
+    const controller = new AbortController()
+    let attempts = 0
+
+    const run = withRetry(
+      async () => {
+        attempts++
+        throw new ProviderError('429', 429, 60_000)
+      },
+      options,
+      () => controller.abort(),
+      controller.signal,
+    )
+
+    await assert.rejects(run, { name: 'AbortError' })
+    assert.equal(attempts, 1)
+  })
+})
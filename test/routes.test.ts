@@ -0,0 +1,197 @@
+import { after, before, beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { POST as search } from '@/app/api/providers/[id]/search/route'
+import { POST as artwork } from '@/app/api/providers/[id]/artwork/route'
+import { POST as resolve } from '@/app/api/resolve/route'
+import { GET as screenScraperMedia } from '@/app/api/media/screenscraper/route'
+import { ProviderError } from '@/lib/resolver'
+import { isRetryable } from '@/lib/resolver/retry'
+import {
+  MOCK_CREDENTIALS,
+  startMockServer,
+  type MockServer,
+} from './mock-server'
+
+function searchRequest(id: string, body: unknown) {
+  const request = new Request(`http://localhost/api/providers/${id}/search`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  return search(request, { params: Promise.resolve({ id }) })
+}
+
+describe('provider search route', () => {
+  let server: MockServer
+
+  before(async () => {
+    server = await startMockServer()
+  })
+  after(() => server.close())
+  beforeEach(() => server.reset())
+
+  test('passes a rejected key through so the client does not retry', async () => {
+    const response = await searchRequest('rawg', {
+      query: { title: 'Hades', systemName: 'PC' },
+      credentials: { apiKey: 'wrong' },
+    })
+
+    assert.equal(response.status, 401)
+    const { error } = await response.json()
+    assert.equal(error, 'RAWG API error: 401')
+    assert.equal(server.requestsTo('rawg').length, 1)
+    // The remote provider rebuilds the error from the response
+    assert.equal(isRetryable(new ProviderError(error, response.status)), false)
+  })
+})
+
+describe('provider artwork route', () => {
+  let server: MockServer
+
+  before(async () => {
+    server = await startMockServer()
+  })
+  after(() => server.close())
+  beforeEach(() => server.reset())
+
+  const artworkRequest = (candidate: unknown) =>
+    artwork(
+      new Request('http://localhost/api/providers/mobygames/artwork', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          candidate,
+          credentials: MOCK_CREDENTIALS.mobygames,
+        }),
+      }),
+      { params: Promise.resolve({ id: 'mobygames' }) },
+    )
+
+  const chronoTrigger = {
+    providerId: 'mobygames',
+    id: 4501,
+    title: 'Chrono Trigger',
+    platformIds: [15],
+    platformNames: ['SNES'],
+  }
+
+  test('resolves the artwork of a candidate', async () => {
+    const response = await artworkRequest(chronoTrigger)
+
+    assert.equal(response.status, 200)
+    assert.match((await response.json()).imageUrl, /front-cover\.jpg$/)
+  })
+
+  test('rejects IDs that are not integers', async () => {
+    const responses = await Promise.all([
+      artworkRequest({ ...chronoTrigger, id: '4501/../../games' }),
+      artworkRequest({ ...chronoTrigger, id: 4501.5 }),
+      artworkRequest({ ...chronoTrigger, platformIds: ['15/covers?x='] }),
+      artworkRequest({ ...chronoTrigger, platformIds: undefined }),
+    ])
+
+    assert.deepEqual(
+      responses.map((response) => response.status),
+      [400, 400, 400, 400],
+    )
+    assert.equal(server.requests.length, 0)
+  })
+})
+
+describe('resolve route', () => {
+  let server: MockServer
+
+  before(async () => {
+    server = await startMockServer()
+  })
+  after(() => server.close())
+
+  test('passes the ROM file on to the providers', async () => {
+    const request = new Request('http://localhost/api/resolve', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        providerIds: ['screenscraper'],
+        title: 'Sonic 1',
+        systemName: 'Mega Drive',
+        crc: 'F9394E97',
+        romName: 'Sonic The Hedgehog (USA, Europe).md',
+        size: 524288,
+        credentials: { screenscraper: MOCK_CREDENTIALS.screenscraper },
+      }),
+    })
+    const response = await resolve(request)
+
+    assert.equal(response.status, 200)
+    const body = await response.json()
+    assert.equal(body.resolution.status, 'found')
+    assert.equal(body.candidates[0].candidate.identified, true)
+    assert.equal(
+      body.imageUrl,
+      'http://localhost/api/media/screenscraper?systemeid=1&jeuid=3&media=box-2D%28us%29',
+    )
+    const [lookup] = server.requestsTo('screenscraper')
+    assert.equal(lookup.path, '/jeuInfos.php')
+    assert.equal(lookup.query.get('crc'), 'F9394E97')
+  })
+})
+
+describe('ScreenScraper media route', () => {
+  let server: MockServer
+  const { devId, devPassword } = MOCK_CREDENTIALS.screenscraper
+
+  before(async () => {
+    server = await startMockServer()
+    process.env.SCREENSCRAPER_DEV_ID = devId
+    process.env.SCREENSCRAPER_DEV_PASSWORD = devPassword
+  })
+  after(() => {
+    delete process.env.SCREENSCRAPER_DEV_ID
+    delete process.env.SCREENSCRAPER_DEV_PASSWORD
+    return server.close()
+  })
+  beforeEach(() => server.reset())
+
+  test('keeps the server credentials out of image URLs', async () => {
+    const response = await searchRequest('screenscraper', {
+      query: {
+        title: 'Sonic 1',
+        systemName: 'Mega Drive',
+        crc: 'F9394E97',
+      },
+      // Asking for the credentials in the URL changes nothing
+      credentials: { mediaCredentials: 'true' },
+    })
+
+    assert.equal(response.status, 200)
+    const { candidates } = await response.json()
+    assert.equal(
+      candidates[0].imageUrl,
+      'http://localhost/api/media/screenscraper?systemeid=1&jeuid=3&media=box-2D%28us%29',
+    )
+    assert.doesNotMatch(JSON.stringify(candidates), /password/)
+  })
+
+  test('serves the media with the server credentials', async () => {
+    const response = await screenScraperMedia(
+      new Request(
+        'http://localhost/api/media/screenscraper?systemeid=1&jeuid=3&media=box-2D%28us%29',
+      ),
+    )
+
+    assert.equal(response.status, 200)
+    const [request] = server.requestsTo('screenscraper')
+    assert.equal(request.path, '/mediaJeu.php')
+    assert.equal(request.query.get('devid'), devId)
+    assert.equal(request.query.get('devpassword'), devPassword)
+    assert.equal(request.query.get('media'), 'box-2D(us)')
+  })
+
+  test('rejects requests without the media parameters', async () => {
+    const response = await screenScraperMedia(
+      new Request('http://localhost/api/media/screenscraper?jeuid=3'),
+    )
+    assert.equal(response.status, 400)
+    assert.equal(server.requests.length, 0)
+  })
+})
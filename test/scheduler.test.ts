@@ -0,0 +1,295 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { getEventListeners } from 'node:events'
+import {
+  ProviderError,
+  createPauseGate,
+  createRateLimiter,
+  getProvider,
+  withRateLimit,
+  type RateLimitPolicy,
+} from '@/lib/resolver'
+import { runConcurrently } from '@/lib/resolver/scheduler'
+
+// Let resolved promises run their continuations
+const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+function deferred() {
+  let resolve!: () => void
+  const promise = new Promise<void>((done) => (resolve = done))
+  return { promise, resolve }
+}
+
+describe('createRateLimiter', () => {
+  let now: number
+
+  // The limiter reads the injected clock, its wake-ups use mocked timers
+  const advance = async (ms: number) => {
+    now += ms
+    mock.timers.tick(ms)
+    await flush()
+  }
+
+  beforeEach(() => {
+    now = 0
+    mock.timers.enable({ apis: ['setTimeout'] })
+  })
+  afterEach(() => mock.timers.reset())
+
+  const startTimes = (policy: RateLimitPolicy, count: number) => {
+    const limiter = createRateLimiter(policy, () => now)
+    const started: number[] = []
+    const tasks = Array.from({ length: count }, () =>
+      limiter.schedule(async () => {
+        started.push(now)
+      }),
+    )
+    return { limiter, started, tasks }
+  }
+
+  test('runs a burst right away, then one task per token', async () => {
+    const { started, tasks } = startTimes(
+      { requestsPerSecond: 2, burst: 2, maxConcurrent: 10 },
+      4,
+    )
+    await flush()
+    assert.deepEqual(started, [0, 0])
+
+    await advance(499)
+    assert.deepEqual(started, [0, 0])
+    await advance(1)
+    assert.deepEqual(started, [0, 0, 500])
+    await advance(500)
+    assert.deepEqual(started, [0, 0, 500, 1000])
+    await Promise.all(tasks)
+  })
+
+  test('spreads tasks out when the rate is below one per second', async () => {
+    const { started, tasks } = startTimes(
+      { requestsPerSecond: 0.1, maxConcurrent: 1 },
+      2,
+    )
+    await flush()
+    assert.deepEqual(started, [0])
+
+    await advance(9_999)
+    assert.deepEqual(started, [0])
+    await advance(1)
+    assert.deepEqual(started, [0, 10_000])
+    await Promise.all(tasks)
+  })
+
+  test('caps the tasks in flight', async () => {
+    const limiter = createRateLimiter(
+      { requestsPerSecond: 100, maxConcurrent: 2 },
+      () => now,
+    )
+    const gates = [deferred(), deferred(), deferred()]
+    let running = 0
+    const tasks = gates.map((gate) =>
+      limiter.schedule(async () => {
+        running++
+        await gate.promise
+        running--
+      }),
+    )
+
+    await flush()
+    assert.equal(running, 2)
+    gates[0].resolve()
+    await flush()
+    assert.equal(running, 2)
+    gates[1].resolve()
+    gates[2].resolve()
+    await Promise.all(tasks)
+    assert.equal(running, 0)
+  })
+
+  test('holds back every task during a pause', async () => {
+    const { limiter, started, tasks } = startTimes(
+      { requestsPerSecond: 10, burst: 10, maxConcurrent: 10 },
+      0,
+    )
+    limiter.pause(2_000)
+    const task = limiter.schedule(async () => {
+      started.push(now)
+    })
+
+    await advance(1_999)
+    assert.deepEqual(started, [])
+    await advance(1)
+    assert.deepEqual(started, [2_000])
+    await Promise.all([...tasks, task])
+  })
+
+  test('drops an aborted task from the queue', async () => {
+    const limiter = createRateLimiter(
+      { requestsPerSecond: 1, maxConcurrent: 1 },
+      () => now,
+    )
+    const controller = new AbortController()
+    const ran: string[] = []
+
+    const first = limiter.schedule(async () => {
+      ran.push('first')
+    })
+    const aborted = limiter.schedule(async () => {
+      ran.push('aborted')
+    }, controller.signal)
+    const last = limiter.schedule(async () => {
+      ran.push('last')
+    })
+
+    controller.abort()
+    await assert.rejects(aborted, { name: 'AbortError' })
+    assert.equal(getEventListeners(controller.signal, 'abort').length, 0)
+    await advance(1_000)
+    await Promise.all([first, last])
+    assert.deepEqual(ran, ['first', 'last'])
+  })
+})
+
+describe('withRateLimit', () => {
+  let now: number
+
+  beforeEach(() => {
+    now = 0
+    mock.timers.enable({ apis: ['setTimeout'] })
+  })
+  afterEach(() => mock.timers.reset())
+
+  test('pauses the provider for as long as a 429 asks', async () => {
+    const searches: number[] = []
+    let limited = true
+    const provider = withRateLimit(
+      {
+        ...getProvider('rawg'),
+        search: async () => {
+          searches.push(now)
+          if (limited) {
+            limited = false
+            throw new ProviderError('RAWG API error: 429', 429, 3_000)
+          }
+          return []
+        },
+      },
+      createRateLimiter(
+        { requestsPerSecond: 10, burst: 10, maxConcurrent: 10 },
+        () => now,
+      ),
+    )
+    const query = { title: 'Hades', systemName: 'PC' }
+
+    await assert.rejects(provider.search(query, {}), ProviderError)
+    const next = provider.search(query, {})
+    now += 2_999
+    mock.timers.tick(2_999)
+    await flush()
+    assert.deepEqual(searches, [0])
+
+    now += 1
+    mock.timers.tick(1)
+    await next
+    assert.deepEqual(searches, [0, 3_000])
+  })
+})
+
+describe('createPauseGate', () => {
+  test('releases waiters on resume', async () => {
+    const gate = createPauseGate()
+    await gate.wait()
+
+    gate.pause()
+    let released = false
+    const waiting = gate.wait().then(() => (released = true))
+    await flush()
+    assert.equal(released, false)
+
+    gate.resume()
+    await waiting
+    assert.equal(gate.paused, false)
+  })
+
+  test('removes the abort listener of a released waiter', async () => {
+    const gate = createPauseGate()
+    const controller = new AbortController()
+
+    gate.pause()
+    const waiting = gate.wait(controller.signal)
+    assert.equal(getEventListeners(controller.signal, 'abort').length, 1)
+    gate.resume()
+    await waiting
+
+    assert.equal(getEventListeners(controller.signal, 'abort').length, 0)
+  })
+
+  test('releases an aborted waiter without resuming', async () => {
+    const gate = createPauseGate()
+    const controller = new AbortController()
+
+    gate.pause()
+    const waiting = gate.wait(controller.signal)
+    controller.abort()
+    await waiting
+
+    assert.equal(gate.paused, true)
+    // An aborted signal doesn't wait at all
+    await gate.wait(controller.signal)
+  })
+})
+
+describe('runConcurrently', () => {
+  test('keeps the order of the items', async () => {
+    const results = await runConcurrently([30, 10, 20], 3, async (delay) => {
+      await new Promise((resolve) => setTimeout(resolve, delay))
+      return delay * 2
+    })
+    assert.deepEqual(results, [60, 20, 40])
+  })
+
+  test('stops picking up items once aborted', async () => {
+    const controller = new AbortController()
+    const started: number[] = []
+
+    const results = await runConcurrently(
+      [1, 2, 3, 4],
+      2,
+      async (item) => {
+        started.push(item)
+        if (item === 2) {
+          controller.abort()
+        }
+        return item
+      },
+      { signal: controller.signal },
+    )
+
+    // Started items finish, the others are left as holes
+    assert.deepEqual(started, [1, 2])
+    assert.equal(results.length, 4)
+    assert.deepEqual(Object.keys(results), ['0', '1'])
+  })
+
+  test('holds back new items while the gate is paused', async () => {
+    const gate = createPauseGate()
+    const started: number[] = []
+
+    const run = runConcurrently(
+      [1, 2, 3],
+      1,
+      async (item) => {
+        started.push(item)
+        if (item === 1) {
+          gate.pause()
+        }
+        return item
+      },
+      { gate },
+    )
+
+    await flush()
+    assert.deepEqual(started, [1])
+    gate.resume()
+    assert.deepEqual(await run, [1, 2, 3])
+  })
+})
@@ -0,0 +1,227 @@
+import { after, before, beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  ProviderError,
+  createMemoryCache,
+  getProvider,
+  resolveCovers,
+  resolveWithChain,
+} from '@/lib/resolver'
+import {
+  createAccountLimits,
+  screenScraperAccounts,
+} from '@/lib/resolver/providers/screenscraper-account'
+import {
+  MOCK_CREDENTIALS,
+  SCREENSCRAPER_DAILY_QUOTA,
+  startMockServer,
+  type MockServer,
+} from './mock-server'
+
+const MEDIA =
+  'https://neoclone.screenscraper.fr/api2/mediaJeu.php?softname=game-cover-resolver'
+
+const sonic = {
+  title: 'Sonic the Hedgehog',
+  systemName: 'Mega Drive',
+  crc: 'F9394E97',
+  romName: 'Sonic The Hedgehog (USA, Europe).md',
+  size: 524288,
+}
+
+describe('ScreenScraper', () => {
+  let server: MockServer
+  const provider = getProvider('screenscraper')
+  const credentials = MOCK_CREDENTIALS.screenscraper
+
+  before(async () => {
+    server = await startMockServer()
+  })
+  after(() => server.close())
+  beforeEach(() => {
+    server.reset()
+    screenScraperAccounts.reset()
+  })
+
+  test('identifies the game by its ROM file', async () => {
+    const result = await resolveWithChain(
+      [{ provider, credentials }],
+      // The file identifies the game whatever the title says
+      { ...sonic, title: 'Sonic 1' },
+    )
+
+    assert.equal(result.match?.candidate.id, 3)
+    assert.equal(result.match?.candidate.identified, true)
+    assert.equal(result.match?.score, 1)
+    assert.equal(
+      result.match?.imageUrl,
+      `${MEDIA}&systemeid=1&jeuid=3&media=box-2D%28us%29`,
+    )
+    assert.doesNotMatch(result.match?.imageUrl || '', /password/)
+
+    const [request] = server.requestsTo('screenscraper')
+    assert.equal(request.path, '/jeuInfos.php')
+    assert.equal(request.query.get('systemeid'), '1')
+    assert.equal(request.query.get('crc'), 'F9394E97')
+    assert.equal(request.query.get('romnom'), sonic.romName)
+    assert.equal(request.query.get('romtaille'), '524288')
+    assert.equal(request.query.get('ssid'), credentials.userId)
+  })
+
+  test('picks the box art of the first region in priority order', async () => {
+    const [candidate] = await provider.search(sonic, {
+      ...credentials,
+      regions: 'eu,wor,us,ss,jp',
+    })
+
+    assert.equal(
+      candidate.imageUrl,
+      `${MEDIA}&systemeid=1&jeuid=3&media=box-2D%28eu%29`,
+    )
+    assert.equal(candidate.releaseDate, '1991-06-21')
+    // Falls back to the first name when no region of the list has one
+    assert.equal(candidate.title, 'Sonic The Hedgehog')
+  })
+
+  test('adds the developer credentials to image URLs when allowed', async () => {
+    const [candidate] = await provider.search(sonic, {
+      ...credentials,
+      mediaCredentials: 'true',
+    })
+
+    const url = new URL(candidate.imageUrl || '')
+    assert.equal(url.searchParams.get('devid'), credentials.devId)
+    assert.equal(url.searchParams.get('devpassword'), credentials.devPassword)
+    // The user's login is never passed on
+    assert.equal(url.searchParams.get('sspassword'), null)
+  })
+
+  test('searches by title when the ROM is unknown', async () => {
+    const result = await resolveWithChain([{ provider, credentials }], {
+      ...sonic,
+      crc: '00C0FFEE',
+    })
+
+    assert.deepEqual(
+      server.requestsTo('screenscraper').map((request) => request.path),
+      ['/jeuInfos.php', '/jeuRecherche.php'],
+    )
+    assert.equal(result.match?.candidate.id, 3)
+    assert.equal(result.match?.candidate.identified, undefined)
+    assert.deepEqual(
+      result.candidates.map((scored) => scored.candidate.id),
+      [3, 4],
+    )
+  })
+
+  test('reports a title search without results as not found', async () => {
+    const candidates = await provider.search(
+      { title: 'Unreleased', systemName: 'Mega Drive' },
+      credentials,
+    )
+    assert.deepEqual(candidates, [])
+  })
+
+  test('caches each ROM file separately', async () => {
+    const cache = createMemoryCache()
+    const chain = [{ provider, credentials }]
+    const unknown = { ...sonic, crc: '00C0FFEE' }
+
+    await resolveWithChain(chain, sonic, { cache })
+    const again = await resolveWithChain(chain, sonic, { cache })
+    const other = await resolveWithChain(chain, unknown, { cache })
+
+    assert.equal(again.cached, true)
+    assert.equal(other.cached, false)
+    assert.equal(other.match?.candidate.identified, undefined)
+    assert.equal(server.requestsTo('screenscraper').length, 3)
+  })
+
+  test('stops once the daily quota is used up', async () => {
+    const games = Array.from({ length: SCREENSCRAPER_DAILY_QUOTA + 2 }, () => ({
+      ...sonic,
+    }))
+    const { resolutions } = await resolveCovers(games, {
+      chain: [{ provider, credentials }],
+      concurrency: 1,
+    })
+
+    assert.equal(
+      server.requestsTo('screenscraper').length,
+      SCREENSCRAPER_DAILY_QUOTA,
+    )
+    assert.deepEqual(resolutions.at(-1), {
+      status: 'error',
+      error: 'ScreenScraper: ScreenScraper daily quota reached',
+      retries: 0,
+    })
+  })
+
+  test('rejects bad developer credentials', async () => {
+    await assert.rejects(
+      provider.search(sonic, { ...credentials, devPassword: 'wrong' }),
+      (error) =>
+        error instanceof ProviderError &&
+        error.status === 401 &&
+        error.message === 'ScreenScraper API error: 401',
+    )
+  })
+
+  test('fails without developer credentials before sending a request', async () => {
+    await assert.rejects(
+      provider.search(sonic, { userId: credentials.userId }),
+      /requires both Developer ID and Developer Password/,
+    )
+    assert.equal(server.requests.length, 0)
+  })
+})
+
+describe('createAccountLimits', () => {
+  const deferred = () => {
+    let resolve = () => {}
+    const promise = new Promise<void>((done) => (resolve = done))
+    return { promise, resolve }
+  }
+
+  test('runs one request at a time until the account reports its threads', async () => {
+    const limits = createAccountLimits()
+    const started: number[] = []
+    const requests = [deferred(), deferred(), deferred()]
+    const running = requests.map((request, i) =>
+      limits.run('user', async () => {
+        started.push(i)
+        await request.promise
+      }),
+    )
+
+    await new Promise((resolve) => setImmediate(resolve))
+    assert.deepEqual(started, [0])
+
+    limits.update('user', { maxthreads: '2' })
+    await new Promise((resolve) => setImmediate(resolve))
+    assert.deepEqual(started, [0, 1])
+
+    requests.forEach((request) => request.resolve())
+    await Promise.all(running)
+    assert.deepEqual(started, [0, 1, 2])
+  })
+
+  test('blocks the account until the next day once the quota is used', async () => {
+    let now = Date.parse('2026-10-19T22:00:00Z')
+    const limits = createAccountLimits(() => now)
+    limits.update('user', {
+      requeststoday: '20000',
+      maxrequestsperday: '20000',
+    })
+
+    await assert.rejects(
+      limits.run('user', async () => 'sent'),
+      (error) => error instanceof ProviderError && error.status === 430,
+    )
+    // Other accounts keep their own quota
+    assert.equal(await limits.run('other', async () => 'sent'), 'sent')
+
+    now = Date.parse('2026-10-20T00:00:00Z')
+    assert.equal(await limits.run('user', async () => 'sent'), 'sent')
+  })
+})
@@ -0,0 +1,127 @@
+import { after, before, beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  cacheKey,
+  getProvider,
+  readOptions,
+  resolveWithChain,
+  type CoverCandidate,
+} from '@/lib/resolver'
+import {
+  MOCK_CREDENTIALS,
+  startMockServer,
+  type MockServer,
+} from './mock-server'
+
+const GRID = 'https://cdn2.steamgriddb.com/grid'
+
+describe('SteamGridDB', () => {
+  let server: MockServer
+  const provider = getProvider('steamgriddb')
+  const credentials = MOCK_CREDENTIALS.steamgriddb
+  const hades: CoverCandidate = {
+    providerId: 'steamgriddb',
+    id: 5252174,
+    title: 'Hades',
+    platformIds: [],
+    platformNames: [],
+  }
+
+  before(async () => {
+    server = await startMockServer()
+  })
+  after(() => server.close())
+  beforeEach(() => server.reset())
+
+  test('searches by name with the API key as bearer token', async () => {
+    const candidates = await provider.search(
+      { title: 'Hades', systemName: 'PC' },
+      credentials,
+    )
+
+    assert.deepEqual(
+      candidates.map((candidate) => [candidate.id, candidate.title]),
+      [
+        [5252174, 'Hades'],
+        [5436728, 'Hades II'],
+      ],
+    )
+    assert.equal(candidates[0].releaseDate, '2020-09-18')
+    const [request] = server.requestsTo('steamgriddb')
+    assert.equal(request.path, '/search/autocomplete/Hades')
+    assert.equal(request.headers.authorization, `Bearer ${credentials.apiKey}`)
+  })
+
+  test('picks a safe vertical grid by default', async () => {
+    const result = await resolveWithChain([{ provider, credentials }], {
+      title: 'Hades',
+      systemName: 'PC',
+    })
+
+    assert.equal(result.match?.candidate.id, 5252174)
+    assert.equal(
+      result.match?.imageUrl,
+      `${GRID}/5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b.png`,
+    )
+    const images = server.requestsTo('steamgriddb')[1]
+    assert.equal(images.path, '/grids/game/5252174')
+    assert.equal(images.query.get('dimensions'), '600x900')
+    assert.equal(images.query.get('nsfw'), 'false')
+    assert.equal(images.query.get('humor'), 'false')
+    assert.equal(images.query.has('styles'), false)
+  })
+
+  test('filters grids by style and allows humor when asked', async () => {
+    const material = await provider.resolveArtwork(hades, {
+      ...credentials,
+      styles: 'material',
+    })
+    assert.equal(material, `${GRID}/9a8b7c6d5e4f30211f2e3d4c5b6a7988.png`)
+
+    const humor = await provider.resolveArtwork(hades, {
+      ...credentials,
+      excludeHumor: 'false',
+    })
+    assert.equal(humor, `${GRID}/0f1e2d3c4b5a69788796a5b4c3d2e1f0.png`)
+    assert.equal(server.requestsTo('steamgriddb')[1].query.get('humor'), 'any')
+  })
+
+  test('requests heroes without the grid-only filters', async () => {
+    const imageUrl = await provider.resolveArtwork(hades, {
+      ...credentials,
+      artType: 'hero',
+      styles: 'white_logo,material',
+    })
+
+    assert.equal(
+      imageUrl,
+      'https://cdn2.steamgriddb.com/hero/7e8f9a0b1c2d3e4f5a6b7c8d9e0f1a2b.png',
+    )
+    const [request] = server.requestsTo('steamgriddb')
+    assert.equal(request.path, '/heroes/game/5252174')
+    assert.equal(request.query.get('styles'), 'material')
+    // 600x900 only exists for grids
+    assert.equal(request.query.has('dimensions'), false)
+  })
+
+  test('reports a game without artwork as not found', async () => {
+    const imageUrl = await provider.resolveArtwork(
+      { ...hades, id: 1 },
+      credentials,
+    )
+    assert.equal(imageUrl, '')
+  })
+
+  test('caches each kind of artwork separately', () => {
+    const query = { title: 'Hades', systemName: 'PC' }
+    const grid = cacheKey(provider.id, query, readOptions(provider, {}))
+    const hero = cacheKey(
+      provider.id,
+      query,
+      readOptions(provider, { artType: 'hero' }),
+    )
+    assert.notEqual(grid, hero)
+    // Providers without options keep their plain key
+    assert.equal(cacheKey('rawg', query), 'rawg:pc:hades')
+  })
+})
@@ -0,0 +1,90 @@
+import { after, before, beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ProviderError, getProvider, resolveWithChain } from '@/lib/resolver'
+import {
+  MOCK_CREDENTIALS,
+  startMockServer,
+  type MockServer,
+} from './mock-server'
+
+const CDN = 'https://cdn.thegamesdb.net/images'
+
+describe('TheGamesDB', () => {
+  let server: MockServer
+  const provider = getProvider('thegamesdb')
+  const credentials = MOCK_CREDENTIALS.thegamesdb
+
+  before(async () => {
+    server = await startMockServer()
+  })
+  after(() => server.close())
+  beforeEach(() => server.reset())
+
+  test('takes the front box art included in the search', async () => {
+    const [candidate] = await provider.search(
+      { title: "Luigi's Mansion", systemName: 'Nintendo GameCube' },
+      credentials,
+    )
+
+    assert.equal(candidate.id, 66)
+    assert.deepEqual(candidate.platformNames, ['Nintendo GameCube'])
+    assert.equal(candidate.imageUrl, `${CDN}/original/boxart/front/66-1.jpg`)
+    assert.equal(candidate.thumbnailUrl, `${CDN}/thumb/boxart/front/66-1.jpg`)
+
+    const imageUrl = await provider.resolveArtwork(candidate, credentials)
+    assert.equal(imageUrl, candidate.imageUrl)
+    // No second request when the search already had the art
+    assert.equal(server.requestsTo('thegamesdb').length, 1)
+  })
+
+  test('looks up the images of games without included box art', async () => {
+    const result = await resolveWithChain([{ provider, credentials }], {
+      title: 'Animal Crossing',
+      systemName: 'gc',
+    })
+
+    assert.equal(
+      result.match?.imageUrl,
+      `${CDN}/original/boxart/front/4433-1.jpg`,
+    )
+    const [search, images] = server.requestsTo('thegamesdb')
+    assert.equal(search.path, '/Games/ByGameName')
+    assert.equal(images.path, '/Games/Images')
+    assert.equal(images.query.get('games_id'), '4433')
+  })
+
+  test('reports a game without any image as not found', async () => {
+    const imageUrl = await provider.resolveArtwork(
+      {
+        providerId: 'thegamesdb',
+        id: 999999,
+        title: 'Unreleased',
+        platformIds: [],
+        platformNames: [],
+      },
+      credentials,
+    )
+    assert.equal(imageUrl, '')
+  })
+
+  test('rejects a bad API key', async () => {
+    await assert.rejects(
+      provider.search(
+        { title: "Luigi's Mansion", systemName: 'gc' },
+        { apiKey: 'wrong' },
+      ),
+      (error) =>
+        error instanceof ProviderError &&
+        error.status === 403 &&
+        error.message === 'TheGamesDB API error: 403',
+    )
+  })
+
+  test('fails without an API key before sending a request', async () => {
+    await assert.rejects(
+      provider.search({ title: "Luigi's Mansion", systemName: 'gc' }, {}),
+      /requires an API key/,
+    )
+    assert.equal(server.requests.length, 0)
+  })
+})